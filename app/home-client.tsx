@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import ReactFlow, {
   Background,
   Handle,
@@ -11,7 +11,56 @@ import ReactFlow, {
   type NodeProps,
 } from "reactflow";
 import "reactflow/dist/style.css";
-import { scenarios, type ScenarioDefinition } from "@/lib/scenario-learning";
+import {
+  scenarios,
+  type ScenarioDefinition,
+  type ScenarioStep,
+} from "@/lib/scenario-learning";
+import {
+  averageResponseMs,
+  buildStateFromScenario,
+  chaosLabel,
+  classReport,
+  coldCacheFactor,
+  createTraceReplay,
+  drainDeadline,
+  getAlgorithm,
+  isLinkDegraded,
+  remapReport,
+  replayTrace,
+  scenarios as simScenarios,
+  scheduleFault,
+  serverLinkId,
+  slowStartFactor,
+  stepSimulation,
+  userThroughput,
+  type AlgorithmId,
+  type CandidateExclusion,
+  type CandidateScore,
+  type EngineId,
+  type LoadBalancerState,
+  type Scenario,
+  type RoutingDecision,
+  type ServerHealth,
+  type ServerState,
+  type SimulationState,
+} from "@/lib/sim";
+
+type Mode = "guided" | "live";
+
+const SPEEDS = [1, 2, 4, 8];
+const ENGINES: EngineId[] = ["tick", "event"];
+const LIVE_LOG_LINES = 6;
+const INSPECTOR_DECISIONS = 8;
+const SEQUENCE_COLORS = [
+  "bg-sky-100 text-sky-700",
+  "bg-emerald-100 text-emerald-700",
+  "bg-amber-100 text-amber-700",
+  "bg-violet-100 text-violet-700",
+  "bg-rose-100 text-rose-700",
+  "bg-teal-100 text-teal-700",
+];
+const HASH_ALGORITHMS: AlgorithmId[] = ["ring-hash", "maglev", "rendezvous"];
 
 const NODE_SIZES = {
   client: { width: 210, height: 130 },
@@ -30,14 +79,48 @@ type LbNodeData = {
   isLeader: boolean;
   queueDepth: number;
   drops: number;
+  role?: string;
+  algorithm?: string;
+  zone?: string;
 };
 
 type ServerNodeData = {
   name: string;
-  status: "UP" | "SLOW" | "DOWN";
+  status: "UP" | "SLOW" | "DOWN" | "DRAINING";
   active: number;
   processed: number;
   failed: number;
+  queued?: number;
+  observed?: "UP" | "SLOW" | "DOWN" | "DRAINING";
+  breaker?: "closed" | "open" | "half-open";
+  weight?: string;
+  warmup?: string;
+  drain?: string;
+  zone?: string;
+};
+
+type DiagramView = {
+  clients: ScenarioDefinition["base"]["clients"];
+  lbs: Array<
+    ScenarioDefinition["base"]["loadBalancers"][number] & {
+      role?: string;
+      algorithm?: string;
+      zone?: string;
+    }
+  >;
+  servers: Array<
+    ScenarioDefinition["base"]["servers"][number] & {
+      queued?: number;
+      observed?: ServerNodeData["observed"];
+      breaker?: ServerNodeData["breaker"];
+      weight?: string;
+      warmup?: string;
+      drain?: string;
+      zone?: string;
+    }
+  >;
+  step?: ScenarioStep;
+  degradedEdgeIds?: string[];
 };
 
 const Pill = ({ label }: { label: string }) => (
@@ -96,9 +179,15 @@ const LbNode = ({ data }: NodeProps<LbNodeData>) => {
               : "bg-slate-100 text-slate-500"
           }`}
         >
-          {data.isLeader ? "Leader" : "Follower"}
+          {data.role ?? (data.isLeader ? "Leader" : "Follower")}
         </span>
       </div>
+      {data.algorithm ? (
+        <p className="mt-2 text-[10px] text-slate-400">
+          {data.algorithm}
+          {data.zone ? ` · ${data.zone}` : ""}
+        </p>
+      ) : null}
       <div className="mt-4 grid grid-cols-2 gap-3 text-[10px]">
         <div>
           <p className="text-slate-400">LB queue</p>
@@ -131,6 +220,8 @@ const ServerNode = ({ data }: NodeProps<ServerNodeData>) => {
       ? "bg-rose-100 text-rose-700"
       : data.status === "SLOW"
       ? "bg-amber-100 text-amber-700"
+      : data.status === "DRAINING"
+      ? "bg-violet-100 text-violet-700"
       : "bg-sky-100 text-sky-700";
   return (
     <div className="pointer-events-auto relative min-w-[320px] rounded-[28px] border border-sky-200/70 bg-white/90 p-5 text-xs text-slate-700 shadow-[0_20px_50px_rgba(15,23,42,0.12)] backdrop-blur">
@@ -162,6 +253,74 @@ const ServerNode = ({ data }: NodeProps<ServerNodeData>) => {
           <p className="text-slate-400">Total failed</p>
           <p className="text-sm font-semibold text-slate-900">{data.failed}</p>
         </div>
+        {data.queued !== undefined ? (
+          <div>
+            <p className="text-slate-400">Queued</p>
+            <p className="text-sm font-semibold text-slate-900">
+              {data.queued}
+            </p>
+          </div>
+        ) : null}
+        {data.observed ? (
+          <div>
+            <p className="text-slate-400">LB view</p>
+            <p
+              className={`text-sm font-semibold ${
+                data.observed === data.status
+                  ? "text-slate-900"
+                  : "text-amber-600"
+              }`}
+            >
+              {data.observed}
+            </p>
+          </div>
+        ) : null}
+        {data.breaker ? (
+          <div>
+            <p className="text-slate-400">Breaker</p>
+            <p
+              className={`text-sm font-semibold ${
+                data.breaker === "open"
+                  ? "text-rose-600"
+                  : data.breaker === "half-open"
+                  ? "text-amber-600"
+                  : "text-slate-900"
+              }`}
+            >
+              {data.breaker}
+            </p>
+          </div>
+        ) : null}
+        {data.zone ? (
+          <div>
+            <p className="text-slate-400">Zone</p>
+            <p className="text-sm font-semibold text-slate-900">{data.zone}</p>
+          </div>
+        ) : null}
+        {data.drain ? (
+          <div>
+            <p className="text-slate-400">Draining</p>
+            <p className="text-sm font-semibold text-amber-600">
+              {data.drain}
+            </p>
+          </div>
+        ) : null}
+        {data.warmup ? (
+          <div>
+            <p className="text-slate-400">Warm-up</p>
+            <p className="text-sm font-semibold text-amber-600">
+              {data.warmup}
+            </p>
+          </div>
+        ) : null}
+        {data.weight ? (
+          <div>
+            <p className="text-slate-400">Weight</p>
+            <p className="text-sm font-semibold text-slate-900">
+              {data.weight}
+            </p>
+          </div>
+        ) : null}
       </div>
       <Handle
         type="target"
@@ -172,7 +331,10 @@ const ServerNode = ({ data }: NodeProps<ServerNodeData>) => {
   );
 };
 
-const mergeScenarioStep = (scenario: ScenarioDefinition, stepIndex: number) => {
+const mergeScenarioStep = (
+  scenario: ScenarioDefinition,
+  stepIndex: number
+): DiagramView => {
   const step = scenario.steps[Math.max(0, Math.min(stepIndex, scenario.steps.length - 1))];
 
   const clients = {
@@ -193,24 +355,178 @@ const mergeScenarioStep = (scenario: ScenarioDefinition, stepIndex: number) => {
   return { clients, lbs, servers, step };
 };
 
+const describeWarmup = (
+  state: SimulationState,
+  lb: LoadBalancerState | undefined,
+  server: ServerState
+) => {
+  const parts: string[] = [];
+  const factor = lb ? slowStartFactor(state, lb, server.id) : 1;
+  if (factor < 1) parts.push(`slow start ${Math.round(factor * 100)}%`);
+  const cold = coldCacheFactor(state, server);
+  if (cold >= 1.05) parts.push(`cache ${cold.toFixed(1)}x`);
+  return parts.length ? parts.join(" · ") : undefined;
+};
+
+const mapSimulationState = (state: SimulationState): DiagramView => {
+  const inSystem =
+    state.loadBalancers.reduce((sum, lb) => sum + lb.queue.length, 0) +
+    state.servers.reduce(
+      (sum, server) => sum + server.inflight.length + server.queue.length,
+      0
+    );
+
+  const clients = {
+    id: "client-1",
+    name: "Clients",
+    currentRequests: inSystem,
+    totalRequests: state.nextRequestId - 1,
+  };
+
+  const activeActive = state.lbMode === "active-active";
+  const lbs = state.loadBalancers.map((lb) => {
+    const isLeader = activeActive ? lb.isUp : lb.id === state.leaderLbId;
+    return {
+      id: lb.id,
+      name: lb.name,
+      isLeader,
+      queueDepth: lb.queue.length,
+      drops: lb.droppedRequests,
+      role: !lb.isUp
+        ? "Down"
+        : activeActive
+        ? "Active"
+        : isLeader
+        ? "Leader"
+        : "Standby",
+      algorithm: getAlgorithm(lb.routingAlgorithm).name,
+      zone: lb.zone,
+    };
+  });
+
+  const viewLb =
+    state.loadBalancers.find((lb) => lb.id === state.leaderLbId) ??
+    state.loadBalancers[0];
+  const servers = state.servers.map((server) => ({
+    id: server.id,
+    name: server.name,
+    status: server.health,
+    active: server.inflight.length,
+    processed: server.totalProcessed,
+    failed: server.totalFailed,
+    queued: server.queue.length,
+    observed: viewLb?.probes[server.id]?.observed,
+    breaker: viewLb?.breakers[server.id]?.status,
+    weight:
+      state.dynamicWeights.mode === "off"
+        ? undefined
+        : `${server.weight} / ${server.baseWeight}`,
+    zone: server.zone,
+    warmup: describeWarmup(state, viewLb, server),
+    drain:
+      server.health === "DRAINING"
+        ? `${Math.max(
+            0,
+            Math.ceil((drainDeadline(state, server) - state.timeMs) / 1000)
+          )}s left`
+        : undefined,
+  }));
+
+  const step: ScenarioStep = {
+    id: `live-${state.timeMs}`,
+    text: "",
+    highlightEdgeIds: state.servers.flatMap((server) =>
+      Array.from(new Set(server.inflight.map((req) => req.lbId))).map(
+        (lbId) => `edge-${lbId}-${server.id}`
+      )
+    ),
+  };
+
+  const degradedEdgeIds = Object.keys(state.network.links)
+    .filter((linkId) => isLinkDegraded(state, linkId))
+    .map((linkId) => `edge-${linkId}`);
+
+  return { clients, lbs, servers, step, degradedEdgeIds };
+};
+
 const getScenarioGroups = (list: ScenarioDefinition[]) =>
   Array.from(new Set(list.map((item) => item.algorithm)));
 
+const getSimScenarioGroups = (list: Scenario[]) =>
+  Array.from(new Set(list.map((item) => getAlgorithm(item.algorithmId).name)));
+
+const formatMs = (value: number) => `${Math.round(value)}ms`;
+
+const formatShare = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatScore = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+const EXCLUSION_LABELS: Record<CandidateExclusion, string> = {
+  unhealthy: "excluded: unhealthy",
+  "circuit-open": "excluded: circuit open",
+  capacity: "excluded: at capacity",
+  "slow-start": "excluded: slow-start cap",
+  draining: "excluded: draining",
+  "other-zone": "excluded: other zone",
+  "hedge-origin": "excluded: has the original",
+};
+
+const candidateStatus = (
+  decision: RoutingDecision,
+  candidate: CandidateScore
+) => {
+  if (candidate.chosen) return "picked";
+  if (candidate.excluded) return EXCLUSION_LABELS[candidate.excluded];
+  const scored = decision.candidates.some((item) => item.score !== undefined);
+  if (scored && candidate.score === undefined) return "not sampled";
+  return "passed over";
+};
+
 export default function HomeClient() {
   const [selectedScenarioId, setSelectedScenarioId] = useState(
     scenarios[0]?.id ?? ""
   );
   const [stepIndex, setStepIndex] = useState(0);
   const [introDismissed, setIntroDismissed] = useState(false);
+  const [mode, setMode] = useState<Mode>("guided");
+  const [liveScenarioId, setLiveScenarioId] = useState(
+    simScenarios[0]?.id ?? ""
+  );
+  const [simState, setSimState] = useState<SimulationState>(() =>
+    buildStateFromScenario(simScenarios[0], { engine: "event" })
+  );
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[0]);
+  const [inspectedRequestId, setInspectedRequestId] = useState<number | null>(
+    null
+  );
 
   const scenario = useMemo(
     () => scenarios.find((item) => item.id === selectedScenarioId) ?? scenarios[0],
     [selectedScenarioId]
   );
 
-  const { clients, lbs, servers, step } = useMemo(() => {
+  const liveScenario = useMemo(
+    () =>
+      simScenarios.find((item) => item.id === liveScenarioId) ?? simScenarios[0],
+    [liveScenarioId]
+  );
+
+  const detail = mode === "live" ? liveScenario : scenario;
+
+  useEffect(() => {
+    if (mode !== "live" || !isPlaying) return;
+    const handle = window.setInterval(() => {
+      setSimState((prev) => stepSimulation(prev, prev.tickMs));
+    }, simState.tickMs / speed);
+    return () => window.clearInterval(handle);
+  }, [mode, isPlaying, speed, simState.tickMs]);
+
+  const { clients, lbs, servers, step, degradedEdgeIds } = useMemo(() => {
+    if (mode === "live") return mapSimulationState(simState);
     return mergeScenarioStep(scenario, stepIndex);
-  }, [scenario, stepIndex]);
+  }, [mode, simState, scenario, stepIndex]);
 
   const lbX = 420;
   const serverX = 920;
@@ -247,6 +563,9 @@ export default function HomeClient() {
         isLeader: Boolean(lb.isLeader),
         queueDepth: lb.queueDepth,
         drops: lb.drops,
+        role: lb.role,
+        algorithm: lb.algorithm,
+        zone: lb.zone,
       } satisfies LbNodeData,
       position: { x: lbX, y: lbStartY + index * lbSpacing },
     }));
@@ -260,6 +579,13 @@ export default function HomeClient() {
         active: server.active,
         processed: server.processed,
         failed: server.failed,
+        queued: server.queued,
+        observed: server.observed,
+        breaker: server.breaker,
+        weight: server.weight,
+        warmup: server.warmup,
+        drain: server.drain,
+        zone: server.zone,
       } satisfies ServerNodeData,
       position: { x: serverX, y: firstRowY + index * serverSpacing },
     }));
@@ -278,10 +604,11 @@ export default function HomeClient() {
   }, [clients, lbs, servers, lbStartY, serverCenterY, step]);
 
   const edges = useMemo((): Edge[] => {
-    const leader = lbs.find((lb) => lb.isLeader) ?? lbs[0];
+    const leaders = lbs.filter((lb) => lb.isLeader);
+    const entryLbs = leaders.length ? leaders : lbs.slice(0, 1);
 
     const edgesList: Edge[] = [];
-    if (leader) {
+    entryLbs.forEach((leader) => {
       edgesList.push({
         id: `edge-client-${leader.id}`,
         source: clients.id,
@@ -317,22 +644,28 @@ export default function HomeClient() {
           },
         });
       });
-    }
+    });
 
     const highlightedEdges = step?.highlightEdgeIds ?? [];
     return edgesList.map((edge) => {
       const isHighlighted = highlightedEdges.includes(edge.id);
+      const isDegraded = degradedEdgeIds?.includes(edge.id);
       return {
         ...edge,
         animated: Boolean(isHighlighted),
         style: {
           ...(edge.style ?? {}),
-          stroke: isHighlighted ? "#f59e0b" : edge.style?.stroke,
+          stroke: isHighlighted
+            ? "#f59e0b"
+            : isDegraded
+              ? "#e11d48"
+              : edge.style?.stroke,
           strokeWidth: isHighlighted ? 3 : edge.style?.strokeWidth,
+          strokeDasharray: isDegraded ? "6 4" : undefined,
         },
       } satisfies Edge;
     });
-  }, [clients.id, lbs, servers, step]);
+  }, [clients.id, lbs, servers, step, degradedEdgeIds]);
 
   const nodePositions = useMemo(() => {
     const positions: Record<string, { x: number; y: number }> = {};
@@ -342,8 +675,24 @@ export default function HomeClient() {
     return positions;
   }, [nodes]);
 
+  const usesHashing = simState.loadBalancers.some((lb) =>
+    HASH_ALGORITHMS.includes(lb.routingAlgorithm)
+  );
+  const hashNodeKey = simState.servers
+    .map((server) => `${server.id}:${server.weight}`)
+    .join(",");
+  const remap = useMemo(() => {
+    if (!usesHashing) return null;
+    return remapReport(
+      hashNodeKey.split(",").map((item) => {
+        const [id, weight] = item.split(":");
+        return { id, weight: Number(weight) };
+      })
+    );
+  }, [usesHashing, hashNodeKey]);
+
   const calloutPosition = useMemo(() => {
-    if (!step) return null;
+    if (!step || mode === "live") return null;
     if (step.highlightEdgeIds && step.highlightEdgeIds.length > 0) {
       const edgeId = step.highlightEdgeIds[0];
       const [, sourceId, targetId] = edgeId.split("edge-").pop()?.split("-") ?? [];
@@ -371,7 +720,7 @@ export default function HomeClient() {
       x: pos.x + size.width / 2,
       y: pos.y - 30,
     };
-  }, [step, nodePositions]);
+  }, [step, mode, nodePositions]);
 
   const applyScenario = (nextScenario: ScenarioDefinition) => {
     setSelectedScenarioId(nextScenario.id);
@@ -379,6 +728,184 @@ export default function HomeClient() {
     setIntroDismissed(false);
   };
 
+  const applyLiveScenario = (nextScenario: Scenario) => {
+    setLiveScenarioId(nextScenario.id);
+    setSimState(
+      buildStateFromScenario(nextScenario, { engine: simState.engine })
+    );
+    setIsPlaying(false);
+    setIntroDismissed(false);
+  };
+
+  const handleModeChange = (nextMode: Mode) => {
+    setMode(nextMode);
+    setIsPlaying(false);
+    setIntroDismissed(false);
+  };
+
+  const handleLiveStep = () => {
+    setSimState((prev) => stepSimulation(prev, prev.tickMs));
+  };
+
+  const handleLiveReset = () => {
+    setSimState(
+      buildStateFromScenario(liveScenario, {
+        seed: simState.seed,
+        engine: simState.engine,
+      })
+    );
+    setIsPlaying(false);
+  };
+
+  const handleLiveReseed = () => {
+    const seed = Math.floor(Math.random() * 1_000_000);
+    setSimState(
+      buildStateFromScenario(liveScenario, { seed, engine: simState.engine })
+    );
+    setIsPlaying(false);
+  };
+
+  // A loaded trace restarts the scenario with the recording as its traffic.
+  const handleTraceFile = async (file: File) => {
+    const fresh = buildStateFromScenario(liveScenario, {
+      seed: simState.seed,
+      engine: simState.engine,
+    });
+    try {
+      const text = await file.text();
+      setSimState(replayTrace(fresh, text, { loop: true }));
+    } catch (error) {
+      // An unreadable file shows up like a trace whose every row was skipped.
+      const reason = error instanceof Error ? error.message : String(error);
+      setSimState({
+        ...fresh,
+        trace: createTraceReplay(
+          [],
+          [{ row: 0, reason: `could not read ${file.name}: ${reason}` }],
+          { loop: true }
+        ),
+      });
+    }
+    setIsPlaying(false);
+  };
+
+  const handleFailLb = () => {
+    setSimState((prev) => {
+      const target =
+        prev.lbMode === "active-active"
+          ? prev.loadBalancers.find((lb) => lb.isUp)
+          : prev.loadBalancers.find((lb) => lb.id === prev.leaderLbId);
+      if (!target || !target.isUp) return prev;
+      return scheduleFault(prev, prev.timeMs, {
+        kind: "lb-status",
+        lbId: target.id,
+        isUp: false,
+      });
+    });
+  };
+
+  // Faults from the controls hit the busiest healthy server.
+  const handleServerFault = (health: ServerHealth) => {
+    setSimState((prev) => {
+      const load = (server: ServerState) =>
+        server.inflight.length + server.queue.length;
+      const target = prev.servers
+        .filter((server) => server.health === "UP")
+        .sort((a, b) => load(b) - load(a))[0];
+      if (!target) return prev;
+      return scheduleFault(prev, prev.timeMs, {
+        kind: "server-health",
+        serverId: target.id,
+        health,
+      });
+    });
+  };
+
+  const handleFailZone = () => {
+    setSimState((prev) => {
+      const load = (server: ServerState) =>
+        server.inflight.length + server.queue.length;
+      const zone = prev.servers
+        .filter((server) => server.health === "UP" && server.zone)
+        .sort((a, b) => load(b) - load(a))[0]?.zone;
+      if (!zone) return prev;
+      return scheduleFault(prev, prev.timeMs, {
+        kind: "zone-status",
+        zone,
+        isUp: false,
+      });
+    });
+  };
+
+  // Cuts the link from the first live LB to its busiest server, leaving the
+  // server reachable from every other LB.
+  const handleCutLink = () => {
+    setSimState((prev) => {
+      const lb = prev.loadBalancers.find((item) => item.isUp);
+      const server = [...prev.servers]
+        .filter((item) => item.health === "UP")
+        .sort((a, b) => b.inflight.length - a.inflight.length)[0];
+      if (!lb || !server) return prev;
+      return scheduleFault(prev, prev.timeMs, {
+        kind: "link",
+        linkId: serverLinkId(lb.id, server.id),
+        link: { lossRate: 1 },
+      });
+    });
+  };
+
+  const handleHealLinks = () => {
+    setSimState((prev) =>
+      Object.keys(prev.network.links).reduce(
+        (next, linkId) =>
+          scheduleFault(next, prev.timeMs, { kind: "link", linkId, link: null }),
+        prev
+      )
+    );
+  };
+
+  const handleRestoreLbs = () => {
+    setSimState((prev) =>
+      prev.loadBalancers
+        .filter((lb) => !lb.isUp)
+        .reduce(
+          (next, lb) =>
+            scheduleFault(next, prev.timeMs, {
+              kind: "lb-status",
+              lbId: lb.id,
+              isUp: true,
+            }),
+          prev
+        )
+    );
+  };
+
+  const handleEngineChange = (engine: EngineId) => {
+    setSimState(
+      buildStateFromScenario(liveScenario, { seed: simState.seed, engine })
+    );
+    setIsPlaying(false);
+  };
+
+  const latestMetrics = simState.metrics[simState.metrics.length - 1];
+  const hasZones = simState.servers.some((server) => server.zone);
+  const classRows = classReport(simState);
+  const userRates = simState.users.map((user) =>
+    userThroughput(simState, user)
+  );
+  const chaosSpanMs =
+    Math.max(
+      simState.timeMs,
+      ...simState.chaos.map((event) => event.atMs)
+    ) + 10000;
+  const recentLog = simState.log.slice(-LIVE_LOG_LINES).reverse();
+  const recentDecisions = simState.recentDecisions
+    .slice(-INSPECTOR_DECISIONS)
+    .reverse();
+  const inspected =
+    recentDecisions.find((item) => item.requestId === inspectedRequestId) ??
+    recentDecisions[0];
+
   const handlePrev = () => {
     setStepIndex((prev) => Math.max(0, prev - 1));
   };
@@ -392,39 +919,88 @@ export default function HomeClient() {
   return (
     <div className="min-h-screen bg-[#f3f1ec] text-slate-900">
       <div className="flex h-screen w-screen">
-        <aside className="w-[300px] border-r border-slate-200 bg-white/90 p-4 backdrop-blur">
+        <aside className="w-[300px] overflow-y-auto border-r border-slate-200 bg-white/90 p-4 backdrop-blur">
+          <div className="mb-4 flex gap-2">
+            {(["guided", "live"] as const).map((item) => (
+              <button
+                key={item}
+                className={`flex-1 rounded-full border px-3 py-1 text-[10px] uppercase tracking-[0.2em] transition ${
+                  mode === item
+                    ? "border-slate-900 bg-slate-900 text-white"
+                    : "border-slate-200 text-slate-500 hover:border-slate-300"
+                }`}
+                onClick={() => handleModeChange(item)}
+              >
+                {item}
+              </button>
+            ))}
+          </div>
           <p className="text-[10px] uppercase tracking-[0.3em] text-slate-400">
             Scenarios
           </p>
-          <div className="mt-4 space-y-4">
-            {getScenarioGroups(scenarios).map((algo) => (
-              <div key={algo}>
-                <p className="text-[11px] font-semibold text-slate-700">
-                  {algo}
-                </p>
-                <div className="mt-2 space-y-2">
-                  {scenarios
-                    .filter((item) => item.algorithm === algo)
-                    .map((item) => (
-                      <button
-                        key={item.id}
-                        className={`w-full rounded-2xl border px-3 py-2 text-left text-[11px] transition ${
-                          item.id === scenario.id
-                            ? "border-amber-300 bg-amber-50 text-amber-800"
-                            : "border-slate-200 text-slate-600 hover:border-slate-300"
-                        }`}
-                        onClick={() => applyScenario(item)}
-                      >
-                        <p className="font-semibold">{item.name}</p>
-                        <p className="text-[10px] text-slate-500">
-                          {item.summary}
-                        </p>
-                      </button>
-                    ))}
+          {mode === "live" ? (
+            <div className="mt-4 space-y-4">
+              {getSimScenarioGroups(simScenarios).map((algo) => (
+                <div key={algo}>
+                  <p className="text-[11px] font-semibold text-slate-700">
+                    {algo}
+                  </p>
+                  <div className="mt-2 space-y-2">
+                    {simScenarios
+                      .filter(
+                        (item) => getAlgorithm(item.algorithmId).name === algo
+                      )
+                      .map((item) => (
+                        <button
+                          key={item.id}
+                          className={`w-full rounded-2xl border px-3 py-2 text-left text-[11px] transition ${
+                            item.id === liveScenario.id
+                              ? "border-amber-300 bg-amber-50 text-amber-800"
+                              : "border-slate-200 text-slate-600 hover:border-slate-300"
+                          }`}
+                          onClick={() => applyLiveScenario(item)}
+                        >
+                          <p className="font-semibold">{item.name}</p>
+                          <p className="text-[10px] text-slate-500">
+                            {item.summary}
+                          </p>
+                        </button>
+                      ))}
+                  </div>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          ) : (
+            <div className="mt-4 space-y-4">
+              {getScenarioGroups(scenarios).map((algo) => (
+                <div key={algo}>
+                  <p className="text-[11px] font-semibold text-slate-700">
+                    {algo}
+                  </p>
+                  <div className="mt-2 space-y-2">
+                    {scenarios
+                      .filter((item) => item.algorithm === algo)
+                      .map((item) => (
+                        <button
+                          key={item.id}
+                          className={`w-full rounded-2xl border px-3 py-2 text-left text-[11px] transition ${
+                            item.id === scenario.id
+                              ? "border-amber-300 bg-amber-50 text-amber-800"
+                              : "border-slate-200 text-slate-600 hover:border-slate-300"
+                          }`}
+                          onClick={() => applyScenario(item)}
+                        >
+                          <p className="font-semibold">{item.name}</p>
+                          <p className="text-[10px] text-slate-500">
+                            {item.summary}
+                          </p>
+                        </button>
+                      ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </aside>
 
         <main className="relative flex-1">
@@ -454,15 +1030,15 @@ export default function HomeClient() {
                 Scenario Detail
               </p>
               <p className="mt-2 text-lg font-semibold text-slate-900">
-                {scenario.name}
+                {detail.name}
               </p>
               <p className="mt-1 text-[11px] text-slate-600">
-                {scenario.summary}
+                {detail.summary}
               </p>
               <div className="mt-3">
                 <p className="text-[10px] text-slate-400">Setup</p>
                 <ul className="mt-1 list-disc pl-4 text-[10px] text-slate-500">
-                  {scenario.setup.map((item) => (
+                  {detail.setup.map((item) => (
                     <li key={item}>{item}</li>
                   ))}
                 </ul>
@@ -470,7 +1046,7 @@ export default function HomeClient() {
               <div className="mt-3">
                 <p className="text-[10px] text-slate-400">What this teaches</p>
                 <ul className="mt-1 list-disc pl-4 text-[10px] text-slate-500">
-                  {scenario.teaches.map((item) => (
+                  {detail.teaches.map((item) => (
                     <li key={item}>{item}</li>
                   ))}
                 </ul>
@@ -515,6 +1091,496 @@ export default function HomeClient() {
             </div>
           ) : null}
 
+          {mode === "live" ? (
+            <div className="pointer-events-none absolute bottom-5 left-5 right-5 flex justify-center">
+              <div className="pointer-events-auto w-full max-w-[760px] rounded-[28px] border border-slate-200/80 bg-white/90 p-4 shadow-[0_18px_50px_rgba(15,23,42,0.12)] backdrop-blur">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2">
+                    <button
+                      className="rounded-full bg-slate-900 px-3 py-1 text-[10px] font-semibold text-white"
+                      onClick={() => setIsPlaying((prev) => !prev)}
+                    >
+                      {isPlaying ? "Pause" : "Play"}
+                    </button>
+                    <button
+                      className="rounded-full border border-slate-200 px-3 py-1 text-[10px] text-slate-600 hover:border-slate-300"
+                      onClick={handleLiveStep}
+                    >
+                      Step
+                    </button>
+                    <button
+                      className="rounded-full border border-slate-200 px-3 py-1 text-[10px] text-slate-600 hover:border-slate-300"
+                      onClick={handleLiveReset}
+                    >
+                      Reset
+                    </button>
+                    <button
+                      className="rounded-full border border-slate-200 px-3 py-1 text-[10px] text-slate-600 hover:border-slate-300"
+                      onClick={handleLiveReseed}
+                    >
+                      New seed
+                    </button>
+                    <button
+                      className="rounded-full border border-rose-200 px-3 py-1 text-[10px] text-rose-600 hover:border-rose-300"
+                      onClick={handleFailLb}
+                    >
+                      Fail LB
+                    </button>
+                    <button
+                      className="rounded-full border border-rose-200 px-3 py-1 text-[10px] text-rose-600 hover:border-rose-300"
+                      onClick={() => handleServerFault("DOWN")}
+                    >
+                      Fail server
+                    </button>
+                    <button
+                      className="rounded-full border border-violet-200 px-3 py-1 text-[10px] text-violet-600 hover:border-violet-300"
+                      onClick={() => handleServerFault("DRAINING")}
+                    >
+                      Drain server
+                    </button>
+                    {hasZones ? (
+                      <button
+                        className="rounded-full border border-rose-200 px-3 py-1 text-[10px] text-rose-600 hover:border-rose-300"
+                        onClick={handleFailZone}
+                      >
+                        Fail zone
+                      </button>
+                    ) : null}
+                    <button
+                      className="rounded-full border border-rose-200 px-3 py-1 text-[10px] text-rose-600 hover:border-rose-300"
+                      onClick={handleCutLink}
+                    >
+                      Cut link
+                    </button>
+                    {degradedEdgeIds?.length ? (
+                      <button
+                        className="rounded-full border border-slate-200 px-3 py-1 text-[10px] text-slate-600 hover:border-slate-300"
+                        onClick={handleHealLinks}
+                      >
+                        Heal links
+                      </button>
+                    ) : null}
+                    <button
+                      className="rounded-full border border-slate-200 px-3 py-1 text-[10px] text-slate-600 hover:border-slate-300"
+                      onClick={handleRestoreLbs}
+                    >
+                      Restore LBs
+                    </button>
+                    <label className="cursor-pointer rounded-full border border-slate-200 px-3 py-1 text-[10px] text-slate-600 hover:border-slate-300">
+                      Replay trace
+                      <input
+                        type="file"
+                        accept=".csv,.json,.ndjson,text/csv,application/json"
+                        className="hidden"
+                        onChange={(event) => {
+                          const file = event.target.files?.[0];
+                          if (file) void handleTraceFile(file);
+                          event.target.value = "";
+                        }}
+                      />
+                    </label>
+                    <div className="ml-2 flex gap-1">
+                      {SPEEDS.map((item) => (
+                        <button
+                          key={item}
+                          className={`rounded-full border px-2 py-1 text-[10px] transition ${
+                            speed === item
+                              ? "border-amber-300 bg-amber-50 text-amber-800"
+                              : "border-slate-200 text-slate-500 hover:border-slate-300"
+                          }`}
+                          onClick={() => setSpeed(item)}
+                        >
+                          {item}x
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    {ENGINES.map((item) => (
+                      <button
+                        key={item}
+                        className={`rounded-full border px-2 py-1 text-[10px] uppercase tracking-[0.2em] transition ${
+                          simState.engine === item
+                            ? "border-slate-900 bg-slate-900 text-white"
+                            : "border-slate-200 text-slate-500 hover:border-slate-300"
+                        }`}
+                        onClick={() => handleEngineChange(item)}
+                      >
+                        {item}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-[10px] uppercase tracking-[0.2em] text-slate-400">
+                    seed {simState.seed} · t = {(simState.timeMs / 1000).toFixed(1)}s
+                  </span>
+                </div>
+                <div className="mt-3 grid grid-cols-5 gap-3 text-[10px]">
+                  <div>
+                    <p className="text-slate-400">Avg latency</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {formatMs(latestMetrics?.avgLatencyMs ?? 0)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400">p95 latency</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {formatMs(latestMetrics?.p95LatencyMs ?? 0)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400">Failure rate</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {(latestMetrics?.failureRate ?? 0).toFixed(1)}%
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400">Completed</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {simState.totals.completed}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400">Failed</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {simState.totals.failed}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400">Retries</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {simState.totals.retries}
+                      {simState.totals.retriesDenied ? (
+                        <span className="ml-1 text-[10px] font-normal text-rose-500">
+                          {simState.totals.retriesDenied} denied
+                        </span>
+                      ) : null}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400">LB wait</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {formatMs(latestMetrics?.avgLbWaitMs ?? 0)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400">Timeouts</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {simState.totals.timedOut}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400">Wasted work</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {(simState.totals.wastedWorkMs / 1000).toFixed(1)}s
+                      <span className="ml-1 text-[10px] font-normal text-slate-400">
+                        {simState.totals.wastedRequests} req
+                      </span>
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400">Hedges</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {simState.totals.hedges}
+                      <span className="ml-1 text-[10px] font-normal text-slate-400">
+                        {simState.totals.hedgeWins} won ·{" "}
+                        {(simState.totals.hedgeExtraWorkMs / 1000).toFixed(1)}s
+                        extra
+                      </span>
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-slate-400">Servers</p>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {simState.servers.length}
+                      <span className="ml-1 text-[10px] font-normal text-slate-400">
+                        {simState.autoscaler.pending.length} provisioning ·{" "}
+                        {
+                          simState.servers.filter(
+                            (server) => server.health === "DRAINING"
+                          ).length
+                        }{" "}
+                        draining
+                      </span>
+                    </p>
+                  </div>
+                  {simState.trace ? (
+                    <div
+                      title={simState.trace.skipped
+                        .map((issue) =>
+                          issue.row ? `row ${issue.row}: ${issue.reason}` : issue.reason
+                        )
+                        .join("\n")}
+                    >
+                      <p className="text-slate-400">Trace</p>
+                      <p className="text-sm font-semibold text-slate-900">
+                        {simState.trace.cursor}/{simState.trace.records.length}
+                        <span className="ml-1 text-[10px] font-normal text-slate-400">
+                          lap {simState.trace.lap + 1} ·{" "}
+                          {simState.trace.timeScale}x ·{" "}
+                          {simState.trace.skipped.length} skipped
+                        </span>
+                      </p>
+                    </div>
+                  ) : null}
+                  {userRates.length ? (
+                    <div
+                      title={simState.users
+                        .map(
+                          (user, index) =>
+                            `${user.id}: ${userRates[index].toFixed(
+                              2
+                            )} rps, ${formatMs(averageResponseMs(user))} avg, ${
+                              user.failed
+                            } failed`
+                        )
+                        .join("\n")}
+                    >
+                      <p className="text-slate-400">Users</p>
+                      <p className="text-sm font-semibold text-slate-900">
+                        {(
+                          userRates.reduce((sum, rate) => sum + rate, 0) /
+                          userRates.length
+                        ).toFixed(2)}{" "}
+                        rps each
+                        <span className="ml-1 text-[10px] font-normal text-slate-400">
+                          {Math.min(...userRates).toFixed(2)}–
+                          {Math.max(...userRates).toFixed(2)} ·{" "}
+                          {userRates.length} users ·{" "}
+                          {
+                            simState.users.filter(
+                              (user) => user.waitingOn !== null
+                            ).length
+                          }{" "}
+                          waiting
+                        </span>
+                      </p>
+                    </div>
+                  ) : null}
+                  {hasZones ? (
+                    <div>
+                      <p className="text-slate-400">Cross-zone</p>
+                      <p className="text-sm font-semibold text-slate-900">
+                        {simState.totals.crossZone}
+                        <span className="ml-1 text-[10px] font-normal text-slate-400">
+                          +{simState.zones.interZoneRttMs}ms per hop
+                        </span>
+                      </p>
+                    </div>
+                  ) : null}
+                </div>
+                {simState.chaos.length ? (
+                  <div className="mt-3 text-[10px]">
+                    <p className="text-slate-400">Chaos timeline</p>
+                    <div className="relative mt-1 h-3 rounded-full bg-slate-100">
+                      <div
+                        className="absolute inset-y-0 left-0 rounded-full bg-slate-200"
+                        style={{
+                          width: `${(simState.timeMs / chaosSpanMs) * 100}%`,
+                        }}
+                      />
+                      {simState.chaos.map((event, index) => (
+                        <span
+                          key={`${event.atMs}-${index}`}
+                          title={`${Math.round(event.atMs / 1000)}s: ${chaosLabel(
+                            event
+                          )}`}
+                          className={`absolute top-0 h-3 w-1 rounded ${
+                            event.atMs <= simState.timeMs
+                              ? "bg-rose-500"
+                              : "bg-slate-400"
+                          }`}
+                          style={{
+                            left: `${(event.atMs / chaosSpanMs) * 100}%`,
+                          }}
+                        />
+                      ))}
+                    </div>
+                    <ul className="mt-1 space-y-0.5">
+                      {simState.chaos.map((event, index) => (
+                        <li
+                          key={`${event.atMs}-${index}`}
+                          className={
+                            event.atMs <= simState.timeMs
+                              ? "text-rose-600"
+                              : "text-slate-500"
+                          }
+                        >
+                          <span className="font-mono">
+                            {Math.round(event.atMs / 1000)}s
+                          </span>{" "}
+                          {chaosLabel(event)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
+                {classRows.length ? (
+                  <div className="mt-3 text-[10px]">
+                    <p className="text-slate-400">Request classes</p>
+                    <table className="mt-1 w-full text-left">
+                      <thead>
+                        <tr className="text-slate-400">
+                          <th className="font-normal">Class</th>
+                          <th className="font-normal">Mix</th>
+                          <th className="font-normal">Cost</th>
+                          <th className="font-normal">Done</th>
+                          <th className="font-normal">Failed</th>
+                          <th className="font-normal">Avg</th>
+                          <th className="font-normal">p95</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-slate-700">
+                        {classRows.map((row) => (
+                          <tr key={row.id}>
+                            <td>{row.name}</td>
+                            <td>{formatShare(row.share)}</td>
+                            <td>{row.serviceMultiplier}x</td>
+                            <td>{row.completed}</td>
+                            <td>{row.failed}</td>
+                            <td>{formatMs(row.avgLatencyMs)}</td>
+                            <td>{formatMs(row.p95LatencyMs)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : null}
+                {remap ? (
+                  <div className="mt-3 text-[10px]">
+                    <p className="text-slate-400">
+                      Keys moved ({remap.keys} keys) when a server is added,
+                      removed or marked DOWN
+                    </p>
+                    <table className="mt-1 w-full text-left">
+                      <thead>
+                        <tr className="text-slate-400">
+                          <th className="font-normal">Scheme</th>
+                          <th className="font-normal">Add</th>
+                          <th className="font-normal">Remove</th>
+                          <th className="font-normal">Down</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-slate-700">
+                        {remap.rows.map((row) => (
+                          <tr key={row.scheme}>
+                            <td>{row.scheme}</td>
+                            <td>{formatShare(row.moved.add)}</td>
+                            <td>{formatShare(row.moved.remove)}</td>
+                            <td>{formatShare(row.moved.down)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : null}
+                {recentDecisions.length ? (
+                  <div className="mt-3 text-[10px]">
+                    <p className="text-slate-400">
+                      Selection sequence (oldest first)
+                    </p>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {simState.recentDecisions.map((item) => {
+                        const index = simState.servers.findIndex(
+                          (server) =>
+                            server.id ===
+                            item.candidates.find((candidate) => candidate.chosen)
+                              ?.serverId
+                        );
+                        return (
+                          <span
+                            key={item.requestId}
+                            title={`#${item.requestId}: ${item.reason}`}
+                            className={`rounded px-1.5 py-0.5 font-mono ${
+                              index < 0
+                                ? "bg-slate-100 text-slate-400"
+                                : SEQUENCE_COLORS[index % SEQUENCE_COLORS.length]
+                            }`}
+                          >
+                            {index < 0 ? "x" : index + 1}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ) : null}
+                {inspected ? (
+                  <div className="mt-3 text-[10px]">
+                    <div className="flex flex-wrap items-center gap-1">
+                      <p className="mr-1 text-slate-400">Decision inspector</p>
+                      {recentDecisions.map((item) => (
+                        <button
+                          key={item.requestId}
+                          className={`rounded-full border px-2 py-0.5 transition ${
+                            item === inspected
+                              ? "border-slate-900 bg-slate-900 text-white"
+                              : "border-slate-200 text-slate-500 hover:border-slate-300"
+                          }`}
+                          onClick={() => setInspectedRequestId(item.requestId)}
+                        >
+                          #{item.requestId}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="mt-1 text-slate-600">
+                      [{(inspected.timeMs / 1000).toFixed(1)}s] {inspected.lbId}{" "}
+                      · {getAlgorithm(inspected.algorithmId).name} ·{" "}
+                      {inspected.reason}
+                    </p>
+                    <table className="mt-1 w-full text-left">
+                      <thead>
+                        <tr className="text-slate-400">
+                          <th className="font-normal">Server</th>
+                          <th className="font-normal">Active</th>
+                          <th className="font-normal">Queued</th>
+                          <th className="font-normal">EWMA</th>
+                          <th className="font-normal">
+                            Score
+                            {inspected.scoreLabel
+                              ? ` (${inspected.scoreLabel})`
+                              : ""}
+                          </th>
+                          <th className="font-normal">Outcome</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-slate-700">
+                        {inspected.candidates.map((candidate) => (
+                          <tr
+                            key={candidate.serverId}
+                            className={
+                              candidate.chosen
+                                ? "font-semibold text-slate-900"
+                                : candidate.excluded
+                                  ? "text-slate-400"
+                                  : undefined
+                            }
+                          >
+                            <td>{candidate.serverId}</td>
+                            <td>{candidate.inflight}</td>
+                            <td>{candidate.queued}</td>
+                            <td>{formatMs(candidate.ewmaLatencyMs)}</td>
+                            <td>
+                              {candidate.score === undefined
+                                ? "—"
+                                : formatScore(candidate.score)}
+                            </td>
+                            <td>{candidateStatus(inspected, candidate)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : null}
+                <ul className="mt-3 space-y-1 font-mono text-[10px] text-slate-500">
+                  {recentLog.map((entry, index) => (
+                    <li key={`${entry.id}-${entry.timeMs}-${index}`}>
+                      [{(entry.timeMs / 1000).toFixed(1)}s] {entry.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          ) : null}
+
           {!introDismissed ? (
             <div className="absolute inset-0 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm">
               <div className="w-[520px] rounded-[30px] border border-slate-200/80 bg-white/95 p-6 text-slate-700 shadow-[0_30px_60px_rgba(15,23,42,0.2)]">
@@ -522,15 +1588,15 @@ export default function HomeClient() {
                   Scenario Briefing
                 </p>
                 <p className="mt-2 text-2xl font-semibold text-slate-900">
-                  {scenario.name}
+                  {detail.name}
                 </p>
                 <p className="mt-2 text-sm text-slate-600">
-                  {scenario.summary}
+                  {detail.summary}
                 </p>
                 <div className="mt-4">
                   <p className="text-[11px] text-slate-500">Setup</p>
                   <ul className="mt-2 list-disc pl-5 text-[12px] text-slate-600">
-                    {scenario.setup.map((item) => (
+                    {detail.setup.map((item) => (
                       <li key={item}>{item}</li>
                     ))}
                   </ul>
@@ -538,7 +1604,7 @@ export default function HomeClient() {
                 <div className="mt-4">
                   <p className="text-[11px] text-slate-500">What this teaches</p>
                   <ul className="mt-2 list-disc pl-5 text-[12px] text-slate-600">
-                    {scenario.teaches.map((item) => (
+                    {detail.teaches.map((item) => (
                       <li key={item}>{item}</li>
                     ))}
                   </ul>
@@ -1,4 +1,4 @@
-export type NodeStatus = "UP" | "SLOW" | "DOWN";
+export type NodeStatus = "UP" | "SLOW" | "DOWN" | "DRAINING";
 
 export type ScenarioStep = {
   id: string;
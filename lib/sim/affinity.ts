@@ -0,0 +1,89 @@
+import type { SelectResult } from "./algorithms";
+import { breakerAllows } from "./circuit-breaker";
+import { hashString } from "./hash";
+import { pushLog } from "./log";
+import type { LoadBalancerState, Request, SimulationState } from "./types";
+
+const pinnedTarget = (state: SimulationState, req: Request) => {
+  const client = req.client;
+  if (!client) return null;
+  if (state.affinity.mode === "source-ip") {
+    // Plain modulo over every configured server, healthy or not, so the
+    // mapping only changes when the server list does.
+    const server =
+      state.servers[hashString(client.sourceIp) % state.servers.length];
+    if (!server) return null;
+    return { serverId: server.id, via: `source ip ${client.sourceIp}` };
+  }
+  if (state.affinity.mode === "cookie") {
+    const session = state.sessions[client.clientId];
+    if (!session || session.expiresMs <= state.timeMs) return null;
+    return { serverId: session.serverId, via: `cookie of ${client.clientId}` };
+  }
+  return null;
+};
+
+// Returns the server this request is stuck to, a failure when strict
+// stickiness cannot be honoured, or null to let the algorithm decide.
+// Pinned servers are trusted as long as the LB believes they are healthy and
+// they are not draining, even if they are overloaded: that is how stickiness
+// creates hot spots.
+export const resolveAffinity = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  req: Request
+): SelectResult | null => {
+  if (req.hedgeOf !== undefined) return null;
+  const target = pinnedTarget(state, req);
+  if (!target) return null;
+
+  const pinned = state.servers.find((server) => server.id === target.serverId);
+  if (
+    pinned &&
+    pinned.health !== "DRAINING" &&
+    lb.healthSnapshot[target.serverId] &&
+    breakerAllows(state, lb, target.serverId)
+  ) {
+    return {
+      serverId: target.serverId,
+      reason: `${target.via} pinned to ${target.serverId}`,
+    };
+  }
+
+  if (state.affinity.fallback === "fail") {
+    return { reason: `pinned server ${target.serverId} unavailable` };
+  }
+  state.totals.affinityFallbacks += 1;
+  pushLog(state, {
+    id: req.id,
+    timeMs: state.timeMs,
+    status: "affinity",
+    message: `Request ${req.id} from ${req.client?.clientId} rerouted: pinned server ${target.serverId} unavailable`,
+    lbId: lb.id,
+    serverId: target.serverId,
+  });
+  return null;
+};
+
+// Cookie mode: the first server a client lands on (or the one it was moved
+// to) is written into its cookie for cookieTtlMs.
+export const rememberSession = (
+  state: SimulationState,
+  req: Request,
+  serverId: string
+) => {
+  if (state.affinity.mode !== "cookie" || !req.client) return;
+  if (req.hedgeOf !== undefined) return;
+  const session = state.sessions[req.client.clientId];
+  if (
+    session &&
+    session.serverId === serverId &&
+    session.expiresMs > state.timeMs
+  ) {
+    return;
+  }
+  state.sessions[req.client.clientId] = {
+    serverId,
+    expiresMs: state.timeMs + state.affinity.cookieTtlMs,
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { getAlgorithm } from "./algorithms";
+import { createInitialState } from "./simulator";
+
+// Picks from smooth weighted round robin, carrying its current weights along.
+const smoothPicks = (weights: number[], count: number) => {
+  const servers = createInitialState()
+    .servers.slice(0, weights.length)
+    .map((server, index) => ({ ...server, weight: weights[index] }));
+  const availableIds = servers.map((server) => server.id);
+  const algorithm = getAlgorithm("smooth-weighted-round-robin");
+  let smoothWeights: Record<string, number> = {};
+  const picks: string[] = [];
+  for (let i = 0; i < count; i += 1) {
+    const result = algorithm.select({
+      servers,
+      availableIds,
+      rrIndex: 0,
+      smoothWeights,
+      requestId: i + 1,
+      key: "",
+      timeMs: 0,
+      random: () => 0,
+      jsqChoices: 2,
+    });
+    picks.push(result.serverId ?? "none");
+    smoothWeights = result.smoothWeights ?? smoothWeights;
+  }
+  return picks;
+};
+
+describe("smooth weighted round robin", () => {
+  it("interleaves a heavy server with the light ones", () => {
+    expect(smoothPicks([5, 1, 1], 7)).toEqual([
+      "srv-1",
+      "srv-1",
+      "srv-2",
+      "srv-1",
+      "srv-3",
+      "srv-1",
+      "srv-1",
+    ]);
+  });
+
+  it("gives each server its weight per cycle and repeats the cycle", () => {
+    const picks = smoothPicks([3, 2, 1], 12);
+    expect(picks.slice(6)).toEqual(picks.slice(0, 6));
+    const counts = picks.slice(0, 6).reduce<Record<string, number>>(
+      (acc, id) => ({ ...acc, [id]: (acc[id] ?? 0) + 1 }),
+      {}
+    );
+    expect(counts).toEqual({ "srv-1": 3, "srv-2": 2, "srv-3": 1 });
+    // The weight-3 server never takes three picks in a row.
+    expect(picks.join(",")).not.toContain("srv-1,srv-1,srv-1");
+  });
+});
@@ -1,9 +1,19 @@
-import type { AlgorithmId, ServerState } from "./types";
+import {
+  maglevLookup,
+  rendezvousLookup,
+  ringLookup,
+} from "./consistent-hashing";
+import { peakEwmaCost, peakEwmaEstimate } from "./peak-ewma";
+import type { AlgorithmId, Request, ServerState } from "./types";
 
-type SelectResult = {
+export type SelectResult = {
   serverId?: string;
   reason: string;
   rrIndex?: number;
+  smoothWeights?: Record<string, number>;
+  // Per-server score for the servers the algorithm compared.
+  scores?: Record<string, number>;
+  scoreLabel?: string;
 };
 
 export type Algorithm = {
@@ -14,13 +24,77 @@ export type Algorithm = {
     servers: ServerState[];
     availableIds: string[];
     rrIndex: number;
+    smoothWeights: Record<string, number>;
     requestId: number;
+    key: string;
+    timeMs: number;
+    random: () => number;
+    jsqChoices: number;
   }) => SelectResult;
 };
 
+// Fractional weights (dynamic weights, slow start) still count, but a
+// server never looks infinitely cheap.
+const MIN_WEIGHT = 0.1;
+
 const withAvailableServers = (servers: ServerState[], availableIds: string[]) =>
   servers.filter((server) => availableIds.includes(server.id));
 
+const pickLowest = (
+  candidates: ServerState[],
+  score: (server: ServerState) => number
+) => {
+  let chosen = candidates[0];
+  let best = score(chosen);
+  for (const server of candidates) {
+    const value = score(server);
+    if (value < best) {
+      chosen = server;
+      best = value;
+    }
+  }
+  return { chosen, best };
+};
+
+const formatWeight = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+const scoreAll = (
+  candidates: ServerState[],
+  score: (server: ServerState) => number
+) =>
+  Object.fromEntries(candidates.map((server) => [server.id, score(server)]));
+
+// What the LB expects a request to cost on this server: its class scales
+// the base latency, a recorded service time replaces it. In-flight requests
+// count only the part not yet served. Probes are too cheap to matter.
+const remainingWorkMs = (server: ServerState, req: Request, timeMs: number) => {
+  if (req.isProbe) return 0;
+  const expectedMs =
+    (req.attributes?.serviceTimeMs ?? server.baseLatencyMs) *
+    (req.attributes?.serviceMultiplier ?? 1);
+  const servedMs =
+    req.startProcessingMs === undefined ? 0 : timeMs - req.startProcessingMs;
+  return Math.max(0, expectedMs - servedMs);
+};
+
+// How long until a slot frees up for one more request, if every request
+// takes what its class predicts and queued ones start in order.
+const expectedWaitMs = (server: ServerState, timeMs: number) => {
+  const freeAtMs = server.inflight.map((req) =>
+    remainingWorkMs(server, req, timeMs)
+  );
+  while (freeAtMs.length < server.maxConcurrentRequests) {
+    freeAtMs.push(0);
+  }
+  if (!freeAtMs.length) return Infinity;
+  for (const req of server.queue) {
+    freeAtMs.sort((x, y) => x - y);
+    freeAtMs[0] += remainingWorkMs(server, req, timeMs);
+  }
+  return Math.min(...freeAtMs);
+};
+
 const pickDeterministicPair = (length: number, requestId: number) => {
   if (length <= 1) return [0, 0];
   const first = requestId % length;
@@ -64,6 +138,8 @@ export const algorithms: Algorithm[] = [
       return {
         serverId: chosen.id,
         reason: `least connections picked ${chosen.id} (${chosen.inflight.length} active)`,
+        scores: scoreAll(candidates, (server) => server.inflight.length),
+        scoreLabel: "active requests (lowest wins)",
       };
     },
   },
@@ -94,6 +170,45 @@ export const algorithms: Algorithm[] = [
         serverId: chosen.id,
         rrIndex: rrIndex + 1,
         reason: `weighted round robin -> ${chosen.id} (slot ${slot}/${totalWeight})`,
+        scores: scoreAll(candidates, (server) => Math.max(1, server.weight)),
+        scoreLabel: "weight (slots per cycle)",
+      };
+    },
+  },
+  {
+    id: "smooth-weighted-round-robin",
+    name: "Smooth Weighted Round Robin",
+    description: "nginx-style WRR that interleaves picks instead of sending them in runs.",
+    select: ({ servers, availableIds, smoothWeights }) => {
+      const candidates = withAvailableServers(servers, availableIds);
+      if (!candidates.length) {
+        return { reason: "no available servers" };
+      }
+      // Every server gains its weight, the highest current weight wins and
+      // pays back the total, so a weight-3 server is spread across the cycle.
+      const next: Record<string, number> = { ...smoothWeights };
+      let total = 0;
+      let chosen = candidates[0];
+      for (const server of candidates) {
+        const weight = Math.max(0, server.weight);
+        next[server.id] = (next[server.id] ?? 0) + weight;
+        total += weight;
+        if (next[server.id] > next[chosen.id]) {
+          chosen = server;
+        }
+      }
+      const scores = Object.fromEntries(
+        candidates.map((server) => [server.id, next[server.id]])
+      );
+      next[chosen.id] -= total;
+      return {
+        serverId: chosen.id,
+        smoothWeights: next,
+        reason: `smooth wrr picked ${chosen.id} (current ${formatWeight(
+          scores[chosen.id]
+        )} - total ${formatWeight(total)})`,
+        scores,
+        scoreLabel: "current weight (highest wins)",
       };
     },
   },
@@ -117,6 +232,8 @@ export const algorithms: Algorithm[] = [
         reason: `ewma picked ${chosen.id} (${Math.round(
           chosen.ewmaLatencyMs
         )}ms)`,
+        scores: scoreAll(candidates, (server) => server.ewmaLatencyMs),
+        scoreLabel: "EWMA latency ms (lowest wins)",
       };
     },
   },
@@ -138,6 +255,207 @@ export const algorithms: Algorithm[] = [
       return {
         serverId: chosen.id,
         reason: `p2c chose ${chosen.id} (${firstLoad} vs ${secondLoad})`,
+        scores: { [first.id]: firstLoad, [second.id]: secondLoad },
+        scoreLabel: "active + queued, two sampled (lowest wins)",
+      };
+    },
+  },
+  {
+    id: "ring-hash",
+    name: "Ring Hash",
+    description: "Hashes the request key onto a ring of virtual nodes and walks clockwise.",
+    select: ({ servers, availableIds, key }) => {
+      const hit = ringLookup(servers, availableIds, key);
+      if (!hit) {
+        return { reason: "no available servers" };
+      }
+      return {
+        serverId: hit.serverId,
+        reason: hit.hops
+          ? `ring hash ${key} -> ${hit.serverId} (skipped ${hit.hops} vnodes)`
+          : `ring hash ${key} -> ${hit.serverId}`,
+      };
+    },
+  },
+  {
+    id: "maglev",
+    name: "Maglev",
+    description: "Looks the request key up in a Maglev table built from available servers.",
+    select: ({ availableIds, key }) => {
+      const hit = maglevLookup(availableIds, key);
+      if (!hit) {
+        return { reason: "no available servers" };
+      }
+      return {
+        serverId: hit.serverId,
+        reason: `maglev ${key} slot ${hit.slot} -> ${hit.serverId}`,
+      };
+    },
+  },
+  {
+    id: "rendezvous",
+    name: "Rendezvous Hashing",
+    description: "Scores every server against the request key and picks the highest (HRW).",
+    select: ({ servers, availableIds, key }) => {
+      const hit = rendezvousLookup(servers, availableIds, key);
+      if (!hit) {
+        return { reason: "no available servers" };
+      }
+      return {
+        serverId: hit.serverId,
+        reason: `rendezvous ${key} -> ${hit.serverId}`,
+        scores: Object.fromEntries(
+          hit.scores.map((item) => [item.serverId, item.score])
+        ),
+        scoreLabel: "weighted HRW score (highest wins)",
+      };
+    },
+  },
+  {
+    id: "weighted-least-connections",
+    name: "Weighted Least Connections",
+    description: "Chooses the lowest active requests divided by weight.",
+    select: ({ servers, availableIds }) => {
+      const candidates = withAvailableServers(servers, availableIds);
+      if (!candidates.length) {
+        return { reason: "no available servers" };
+      }
+      const { chosen, best } = pickLowest(
+        candidates,
+        (server) => server.inflight.length / Math.max(MIN_WEIGHT, server.weight)
+      );
+      return {
+        serverId: chosen.id,
+        reason: `weighted least connections picked ${chosen.id} (${
+          chosen.inflight.length
+        } active / weight ${formatWeight(
+          Math.max(MIN_WEIGHT, chosen.weight)
+        )} = ${best.toFixed(2)})`,
+        scores: scoreAll(
+          candidates,
+          (server) => server.inflight.length / Math.max(MIN_WEIGHT, server.weight)
+        ),
+        scoreLabel: "active / weight (lowest wins)",
+      };
+    },
+  },
+  {
+    id: "least-response-time",
+    name: "Least Response Time",
+    description: "Chooses the lowest EWMA latency times active requests.",
+    select: ({ servers, availableIds }) => {
+      const candidates = withAvailableServers(servers, availableIds);
+      if (!candidates.length) {
+        return { reason: "no available servers" };
+      }
+      // +1 counts the request being placed, so idle servers still compare
+      // on latency instead of all scoring zero.
+      const score = (server: ServerState) =>
+        server.ewmaLatencyMs * (server.inflight.length + 1);
+      const { chosen } = pickLowest(candidates, score);
+      return {
+        serverId: chosen.id,
+        reason: `least response time picked ${chosen.id} (${Math.round(
+          chosen.ewmaLatencyMs
+        )}ms x ${chosen.inflight.length + 1})`,
+        scores: scoreAll(candidates, score),
+        scoreLabel: "EWMA ms x (active + 1) (lowest wins)",
+      };
+    },
+  },
+  {
+    id: "peak-ewma",
+    name: "Peak EWMA",
+    description: "Chooses the lowest decaying peak latency times outstanding work.",
+    select: ({ servers, availableIds, timeMs }) => {
+      const candidates = withAvailableServers(servers, availableIds);
+      if (!candidates.length) {
+        return { reason: "no available servers" };
+      }
+      const { chosen, best } = pickLowest(candidates, (server) =>
+        peakEwmaCost(server, timeMs)
+      );
+      return {
+        serverId: chosen.id,
+        reason: `peak ewma picked ${chosen.id} (cost ${Math.round(
+          best
+        )} = ${Math.round(peakEwmaEstimate(chosen, timeMs))}ms x ${
+          chosen.inflight.length + chosen.queue.length + 1
+        })`,
+        scores: scoreAll(candidates, (server) => peakEwmaCost(server, timeMs)),
+        scoreLabel: "peak EWMA ms x (outstanding + 1) (lowest wins)",
+      };
+    },
+  },
+  {
+    id: "random",
+    name: "Random",
+    description: "Picks an available server uniformly at random (seeded).",
+    select: ({ availableIds, random }) => {
+      if (availableIds.length === 0) {
+        return { reason: "no available servers" };
+      }
+      const index = Math.floor(random() * availableIds.length);
+      const serverId = availableIds[index];
+      return {
+        serverId,
+        reason: `random drew ${index + 1} of ${availableIds.length} -> ${serverId}`,
+      };
+    },
+  },
+  {
+    id: "jsq",
+    name: "Join Shortest Queue (d)",
+    description: "Samples d servers at random and joins the shortest queue.",
+    select: ({ servers, availableIds, random, jsqChoices }) => {
+      const pool = withAvailableServers(servers, availableIds);
+      if (!pool.length) {
+        return { reason: "no available servers" };
+      }
+      const sampled: ServerState[] = [];
+      while (sampled.length < Math.min(Math.max(1, jsqChoices), pool.length)) {
+        const [server] = pool.splice(Math.floor(random() * pool.length), 1);
+        sampled.push(server);
+      }
+      const load = (server: ServerState) =>
+        server.inflight.length + server.queue.length;
+      const { chosen } = pickLowest(sampled, load);
+      return {
+        serverId: chosen.id,
+        reason: `jsq(${sampled.length}) ${sampled
+          .map((server) => `${server.id}=${load(server)}`)
+          .join(" ")} -> ${chosen.id}`,
+        scores: scoreAll(sampled, load),
+        scoreLabel: `active + queued, ${sampled.length} sampled (lowest wins)`,
+      };
+    },
+  },
+  {
+    id: "least-work",
+    name: "Least Outstanding Work",
+    description:
+      "Chooses the server whose work ahead clears first, costing requests by class.",
+    select: ({ servers, availableIds, timeMs }) => {
+      const candidates = withAvailableServers(servers, availableIds);
+      if (!candidates.length) {
+        return { reason: "no available servers" };
+      }
+      // Ties go to the server with the fewest requests, as in least
+      // connections.
+      const byLoad = [...candidates].sort(
+        (a, b) =>
+          a.inflight.length + a.queue.length - b.inflight.length - b.queue.length
+      );
+      const { chosen, best } = pickLowest(byLoad, (server) =>
+        expectedWaitMs(server, timeMs)
+      );
+      return {
+        serverId: chosen.id,
+        reason: `least work picked ${chosen.id} (slot free in ${Math.round(
+          best
+        )}ms, ${chosen.inflight.length + chosen.queue.length} requests)`,
+        scores: scoreAll(candidates, (server) => expectedWaitMs(server, timeMs)),
+        scoreLabel: "expected wait for a slot, ms (lowest wins)",
       };
     },
   },
@@ -0,0 +1,241 @@
+import { createBreakerState } from "./circuit-breaker";
+import { startDraining } from "./draining";
+import { createProbeState } from "./health-checks";
+import { pushLog } from "./log";
+import { markCold } from "./warm-up";
+import type {
+  AutoscalerState,
+  ScalingMetric,
+  ServerState,
+  SimulationState,
+} from "./types";
+
+export const createAutoscalerState = (
+  servers: ServerState[],
+  timeMs = 0
+): AutoscalerState => ({
+  lastEvaluationMs: timeMs,
+  lastScaleMs: null,
+  pending: [],
+  nextServerNumber: servers.length + 1,
+});
+
+const logScaling = (
+  state: SimulationState,
+  message: string,
+  serverId?: string
+) => {
+  pushLog(state, {
+    id: 0,
+    timeMs: state.timeMs,
+    status: "autoscale",
+    message,
+    serverId,
+  });
+};
+
+// Servers the autoscaler counts as capacity: not crashed, not on their way out.
+const servingServers = (state: SimulationState) =>
+  state.servers.filter(
+    (server) => server.health !== "DOWN" && server.health !== "DRAINING"
+  );
+
+const fleetUtilization = (
+  state: SimulationState,
+  metric: ScalingMetric
+) => {
+  const serving = servingServers(state);
+  if (!serving.length) return 1;
+  if (metric === "cpu") {
+    const busy = serving.reduce(
+      (sum, server) =>
+        sum +
+        Math.min(
+          1,
+          server.inflight.length / Math.max(1, server.maxConcurrentRequests)
+        ),
+      0
+    );
+    return busy / serving.length;
+  }
+  const work = serving.reduce(
+    (sum, server) => sum + server.inflight.length + server.queue.length,
+    0
+  );
+  const slots = serving.reduce(
+    (sum, server) => sum + server.maxConcurrentRequests,
+    0
+  );
+  return slots ? work / slots : 1;
+};
+
+const formatShare = (value: number) => `${Math.round(value * 100)}%`;
+
+// The fleet size the policy asks for right now, with the reason, or null
+// when it has no opinion.
+const desiredCapacity = (state: SimulationState, current: number) => {
+  const { policy } = state.autoscaling;
+  if (policy.kind === "target-tracking") {
+    const utilization = fleetUtilization(state, policy.metric);
+    const serving = servingServers(state).length;
+    return {
+      desired: Math.ceil((Math.max(1, serving) * utilization) / policy.target),
+      reason: `${policy.metric} ${formatShare(utilization)}, target ${formatShare(
+        policy.target
+      )}`,
+    };
+  }
+  if (policy.kind === "step") {
+    const utilization = fleetUtilization(state, policy.metric);
+    const step = policy.steps.find(
+      (item) =>
+        utilization >= item.lower &&
+        (item.upper === null || utilization < item.upper)
+    );
+    if (!step || step.adjust === 0) return null;
+    return {
+      desired: current + step.adjust,
+      reason: `${policy.metric} ${formatShare(utilization)}, step ${
+        step.adjust > 0 ? "+" : ""
+      }${step.adjust}`,
+    };
+  }
+  if (policy.kind === "scheduled") {
+    const due = policy.schedule.filter((entry) => entry.atMs <= state.timeMs);
+    const entry = due[due.length - 1];
+    if (!entry) return null;
+    return {
+      desired: entry.desired,
+      reason: `schedule asks for ${entry.desired} from ${Math.round(
+        entry.atMs / 1000
+      )}s`,
+    };
+  }
+  return null;
+};
+
+const launchServer = (state: SimulationState, reason: string) => {
+  const scaler = state.autoscaler;
+  const serverId = `srv-${scaler.nextServerNumber++}`;
+  const readyAtMs = state.timeMs + state.autoscaling.provisioningDelayMs;
+  scaler.pending.push({ serverId, readyAtMs });
+  logScaling(state, `Autoscaler launching ${serverId} (${reason})`, serverId);
+  return readyAtMs;
+};
+
+// Scale-in cancels launches that have not finished first, then drains the
+// newest servers so the original fleet is the last to go.
+const shrinkBy = (state: SimulationState, count: number, reason: string) => {
+  const deadlines: number[] = [];
+  let remaining = count;
+  const scaler = state.autoscaler;
+  while (remaining > 0 && scaler.pending.length) {
+    const launch = scaler.pending.pop();
+    if (!launch) break;
+    logScaling(
+      state,
+      `Autoscaler cancelled launch of ${launch.serverId} (${reason})`,
+      launch.serverId
+    );
+    remaining -= 1;
+  }
+  const newestFirst = [...servingServers(state)].reverse();
+  for (const server of newestFirst.slice(0, remaining)) {
+    logScaling(
+      state,
+      `Autoscaler removing ${server.id} (${reason})`,
+      server.id
+    );
+    deadlines.push(startDraining(state, server));
+  }
+  return deadlines;
+};
+
+const evaluatePolicy = (state: SimulationState): number[] => {
+  const config = state.autoscaling;
+  const scaler = state.autoscaler;
+  if (state.timeMs - scaler.lastEvaluationMs < config.evaluationIntervalMs) {
+    return [];
+  }
+  scaler.lastEvaluationMs = state.timeMs;
+
+  const coolingDown =
+    config.policy.kind !== "scheduled" &&
+    scaler.lastScaleMs !== null &&
+    state.timeMs - scaler.lastScaleMs < config.cooldownMs;
+  if (coolingDown) return [];
+
+  const current = servingServers(state).length + scaler.pending.length;
+  const target = desiredCapacity(state, current);
+  if (!target) return [];
+  // Never scale to zero: new servers are cloned from a surviving one.
+  const desired = Math.min(
+    config.maxServers,
+    Math.max(config.minServers, 1, target.desired)
+  );
+  if (desired === current) return [];
+
+  scaler.lastScaleMs = state.timeMs;
+  if (desired < current) {
+    return shrinkBy(state, current - desired, target.reason);
+  }
+  const readyTimes: number[] = [];
+  for (let i = current; i < desired; i += 1) {
+    readyTimes.push(launchServer(state, target.reason));
+  }
+  return readyTimes;
+};
+
+// New servers join every LB as healthy and cold; slow start, if configured,
+// ramps them in from here.
+const completeLaunches = (state: SimulationState) => {
+  const scaler = state.autoscaler;
+  const ready = scaler.pending.filter(
+    (launch) => launch.readyAtMs <= state.timeMs
+  );
+  if (!ready.length) return;
+  scaler.pending = scaler.pending.filter(
+    (launch) => launch.readyAtMs > state.timeMs
+  );
+  const template = state.servers[0];
+  if (!template) return;
+  for (const launch of ready) {
+    const server: ServerState = {
+      ...template,
+      id: launch.serverId,
+      name: `Server ${launch.serverId.replace("srv-", "")}`,
+      health: "UP",
+      weight: template.baseWeight,
+      inflight: [],
+      queue: [],
+      totalProcessed: 0,
+      totalFailed: 0,
+      ewmaLatencyMs: template.baseLatencyMs,
+      peakEwmaMs: template.baseLatencyMs,
+      peakEwmaUpdatedMs: state.timeMs,
+      lastHealthChangeMs: state.timeMs,
+      coldSinceMs: null,
+      errorRate: 0,
+    };
+    markCold(state, server);
+    state.servers.push(server);
+    for (const lb of state.loadBalancers) {
+      lb.healthSnapshot[server.id] = true;
+      lb.probes[server.id] = {
+        ...createProbeState(server),
+        healthySinceMs: state.timeMs,
+      };
+      lb.breakers[server.id] = createBreakerState(state.timeMs);
+    }
+    logScaling(state, `${server.id} is in service`, server.id);
+  }
+};
+
+// Brings finished launches into service and runs the policy when an
+// evaluation is due. Returns when the launches and drains it just started
+// will need attention again.
+export const runAutoscaler = (state: SimulationState) => {
+  completeLaunches(state);
+  if (state.autoscaling.policy.kind === "off") return [];
+  return evaluatePolicy(state);
+};
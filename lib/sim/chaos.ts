@@ -0,0 +1,39 @@
+import { scheduleEvent } from "./engine";
+import type { ChaosEvent, FaultAction, SimulationState } from "./types";
+
+export const describeFault = (action: FaultAction) => {
+  if (action.kind === "server-health") {
+    return action.slowMultiplier === undefined
+      ? `${action.serverId} ${action.health}`
+      : `${action.serverId} ${action.health} ×${action.slowMultiplier}`;
+  }
+  if (action.kind === "server-error-rate") {
+    return `${action.serverId} error rate ${Math.round(action.errorRate * 100)}%`;
+  }
+  if (action.kind === "lb-status") {
+    return `${action.lbId} ${action.isUp ? "up" : "down"}`;
+  }
+  if (action.kind === "zone-status") {
+    return `${action.zone} ${action.isUp ? "up" : "down"}`;
+  }
+  if (!action.link) return `${action.linkId} restored`;
+  return action.link.lossRate !== undefined && action.link.lossRate >= 1
+    ? `${action.linkId} partitioned`
+    : `${action.linkId} degraded`;
+};
+
+export const chaosLabel = (event: ChaosEvent) =>
+  event.label ?? describeFault(event.action);
+
+// Queues the scenario's timeline as ordinary fault events, which both
+// engines already apply as the clock passes them.
+export const scheduleChaos = (state: SimulationState) => {
+  for (const event of state.chaos) {
+    scheduleEvent(state, {
+      kind: "fault",
+      timeMs: event.atMs,
+      action: event.action,
+    });
+  }
+  return state;
+};
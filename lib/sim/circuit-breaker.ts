@@ -0,0 +1,178 @@
+import { pushLog } from "./log";
+import type {
+  BreakerOutcome,
+  BreakerState,
+  BreakerStatus,
+  LoadBalancerState,
+  Request,
+  SimulationState,
+} from "./types";
+
+export const createBreakerState = (timeMs = 0): BreakerState => ({
+  status: "closed",
+  consecutiveFailures: 0,
+  window: [],
+  changedAtMs: timeMs,
+  trialsStarted: 0,
+  trialsPassed: 0,
+});
+
+const getBreaker = (lb: LoadBalancerState, serverId: string) => {
+  if (!lb.breakers[serverId]) {
+    lb.breakers[serverId] = createBreakerState();
+  }
+  return lb.breakers[serverId];
+};
+
+const transition = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  serverId: string,
+  status: BreakerStatus,
+  reason: string
+) => {
+  const breaker = getBreaker(lb, serverId);
+  const from = breaker.status;
+  Object.assign(breaker, createBreakerState(state.timeMs), { status });
+  pushLog(state, {
+    id: 0,
+    timeMs: state.timeMs,
+    status: "circuit-breaker",
+    message: `${lb.id} breaker for ${serverId} ${from} -> ${status} (${reason})`,
+    lbId: lb.id,
+    serverId,
+  });
+};
+
+const share = (window: BreakerOutcome[], outcome: BreakerOutcome) =>
+  window.filter((item) => item === outcome).length / window.length;
+
+const tripReason = (state: SimulationState, breaker: BreakerState) => {
+  const config = state.circuitBreaker;
+  if (
+    config.consecutiveFailures !== null &&
+    breaker.consecutiveFailures >= config.consecutiveFailures
+  ) {
+    return `${breaker.consecutiveFailures} consecutive failures`;
+  }
+  if (breaker.window.length < config.minimumCalls) return null;
+  const errorRate = share(breaker.window, "failed");
+  if (
+    config.errorRateThreshold !== null &&
+    errorRate >= config.errorRateThreshold
+  ) {
+    return `error rate ${Math.round(errorRate * 100)}%`;
+  }
+  const slowRate = share(breaker.window, "slow");
+  if (
+    config.slowCallRateThreshold !== null &&
+    slowRate >= config.slowCallRateThreshold
+  ) {
+    return `slow-call rate ${Math.round(slowRate * 100)}%`;
+  }
+  return null;
+};
+
+// Whether the LB may send this server a request right now. An open breaker
+// moves to half-open once openDurationMs has passed; half-open admits at most
+// halfOpenMaxCalls trials. Trials that never report back (their LB failed)
+// are given up on after another openDurationMs.
+export const breakerAllows = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  serverId: string
+) => {
+  const breaker = getBreaker(lb, serverId);
+  const { openDurationMs, halfOpenMaxCalls } = state.circuitBreaker;
+  const elapsedMs = state.timeMs - breaker.changedAtMs;
+
+  if (breaker.status === "open") {
+    if (elapsedMs < openDurationMs) return false;
+    transition(state, lb, serverId, "half-open", `${openDurationMs}ms elapsed`);
+    return true;
+  }
+  if (breaker.status === "half-open") {
+    if (
+      breaker.trialsStarted >= halfOpenMaxCalls &&
+      elapsedMs >= openDurationMs
+    ) {
+      breaker.trialsStarted = breaker.trialsPassed;
+      breaker.changedAtMs = state.timeMs;
+    }
+    return breaker.trialsStarted < halfOpenMaxCalls;
+  }
+  return true;
+};
+
+// Called once a request is committed to a server; half-open breakers count
+// it as a trial.
+export const recordBreakerCall = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  serverId: string,
+  req: Request
+) => {
+  const breaker = getBreaker(lb, serverId);
+  if (breaker.status !== "half-open") return;
+  breaker.trialsStarted += 1;
+  req.breakerTrial = true;
+};
+
+export const classifyLatency = (
+  state: SimulationState,
+  latencyMs: number
+): BreakerOutcome => {
+  const threshold = state.circuitBreaker.slowCallThresholdMs;
+  return threshold !== null && latencyMs > threshold ? "slow" : "ok";
+};
+
+// Closed breakers feed every outcome into their window. Half-open breakers
+// only listen to their trials, and open breakers ignore stragglers that were
+// sent before they tripped.
+export const recordBreakerOutcome = (
+  state: SimulationState,
+  lbId: string | undefined,
+  serverId: string,
+  req: Request,
+  outcome: BreakerOutcome
+) => {
+  const lb = state.loadBalancers.find((item) => item.id === lbId);
+  const trial = req.breakerTrial ?? false;
+  req.breakerTrial = false;
+  if (!lb) return;
+  const breaker = getBreaker(lb, serverId);
+  const config = state.circuitBreaker;
+
+  if (breaker.status === "open") return;
+
+  if (breaker.status === "half-open") {
+    if (!trial) return;
+    if (outcome !== "ok") {
+      transition(state, lb, serverId, "open", `trial request ${outcome}`);
+      return;
+    }
+    breaker.trialsPassed += 1;
+    if (breaker.trialsPassed >= config.halfOpenMaxCalls) {
+      transition(
+        state,
+        lb,
+        serverId,
+        "closed",
+        `${breaker.trialsPassed} trial requests passed`
+      );
+    }
+    return;
+  }
+
+  breaker.window.push(outcome);
+  if (breaker.window.length > config.windowSize) {
+    breaker.window.splice(0, breaker.window.length - config.windowSize);
+  }
+  breaker.consecutiveFailures =
+    outcome === "failed" ? breaker.consecutiveFailures + 1 : 0;
+
+  const reason = tripReason(state, breaker);
+  if (reason) {
+    transition(state, lb, serverId, "open", reason);
+  }
+};
@@ -0,0 +1,38 @@
+import { nextRandom } from "./random";
+import { clientZone } from "./zones";
+import type { ClientIdentity, Request, SimulationState } from "./types";
+
+const pickClientIndex = (state: SimulationState) => {
+  const { count, zipfExponent } = state.clients;
+  if (count <= 1) return 0;
+  if (zipfExponent <= 0) return Math.floor(nextRandom(state) * count);
+
+  let total = 0;
+  for (let rank = 1; rank <= count; rank += 1) {
+    total += 1 / rank ** zipfExponent;
+  }
+  let cursor = nextRandom(state) * total;
+  for (let rank = 1; rank <= count; rank += 1) {
+    cursor -= 1 / rank ** zipfExponent;
+    if (cursor < 0) return rank - 1;
+  }
+  return count - 1;
+};
+
+// Clients are assigned to source IPs round-robin, so with fewer IPs than
+// clients whole groups of clients share one address.
+export const sampleClient = (state: SimulationState): ClientIdentity => {
+  const index = pickClientIndex(state);
+  const ipIndex = index % Math.max(1, state.clients.sourceIps);
+  const clientId = `client-${index + 1}`;
+  return {
+    clientId,
+    sourceIp: `10.0.${Math.floor(ipIndex / 256)}.${ipIndex % 256}`,
+    zone: clientZone(state, clientId),
+  };
+};
+
+// What hash-based algorithms route on: the client, or the request itself
+// when there is no client to speak of.
+export const requestKey = (req: Request) =>
+  req.client?.clientId ?? `request-${req.originalId ?? req.id}`;
@@ -0,0 +1,60 @@
+import { createRequest, scheduleEvent } from "./engine";
+import { clientZone } from "./zones";
+import type {
+  ClosedLoopConfig,
+  Request,
+  SimulationState,
+  VirtualUser,
+} from "./types";
+
+export const createUsers = (config: ClosedLoopConfig): VirtualUser[] =>
+  Array.from({ length: Math.max(0, Math.floor(config.users)) }, (_, index) => ({
+    id: `user-${index + 1}`,
+    waitingOn: null,
+    sentAtMs: 0,
+    completed: 0,
+    failed: 0,
+    totalResponseMs: 0,
+  }));
+
+// Queues each user's first request. Starts are spread evenly over one mean
+// think time so the users do not all send at once.
+export const scheduleUsers = (state: SimulationState) => {
+  const config = state.closedLoop;
+  if (!config) return state;
+  state.users.forEach((user, index) => {
+    scheduleEvent(state, {
+      kind: "user-send",
+      userId: user.id,
+      timeMs: state.timeMs + (index * config.thinkTimeMs) / state.users.length,
+    });
+  });
+  return state;
+};
+
+// Each user has an address of its own, apart from the open-loop clients.
+export const sendUserRequest = (
+  state: SimulationState,
+  userId: string
+): Request | null => {
+  const index = state.users.findIndex((item) => item.id === userId);
+  const user = state.users[index];
+  if (!user || user.waitingOn !== null) return null;
+  const req = createRequest(state, {
+    client: {
+      clientId: user.id,
+      sourceIp: `10.1.${Math.floor(index / 256)}.${index % 256}`,
+      zone: clientZone(state, user.id),
+    },
+  });
+  user.waitingOn = req.id;
+  user.sentAtMs = state.timeMs;
+  return req;
+};
+
+// Completed requests per second since the run began.
+export const userThroughput = (state: SimulationState, user: VirtualUser) =>
+  state.timeMs > 0 ? (user.completed * 1000) / state.timeMs : 0;
+
+export const averageResponseMs = (user: VirtualUser) =>
+  user.completed ? user.totalResponseMs / user.completed : 0;
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { remapReport, ringLookup, type HashScheme } from "./consistent-hashing";
+
+const nodes = [
+  { id: "srv-1", weight: 1 },
+  { id: "srv-2", weight: 1 },
+  { id: "srv-3", weight: 1 },
+];
+
+const row = (scheme: HashScheme) => {
+  const found = remapReport(nodes).rows.find((item) => item.scheme === scheme);
+  if (!found) throw new Error(`no ${scheme} row`);
+  return found.moved;
+};
+
+describe("remapReport", () => {
+  it("covers every scheme over the requested keys", () => {
+    const report = remapReport(nodes, 200);
+    expect(report.keys).toBe(200);
+    expect(report.rows.map((item) => item.scheme)).toEqual([
+      "ring-hash",
+      "maglev",
+      "rendezvous",
+      "modulo",
+    ]);
+  });
+
+  it.each<HashScheme>(["ring-hash", "rendezvous"])(
+    "%s moves only the lost server's keys",
+    (scheme) => {
+      const moved = row(scheme);
+      // One server in three owned about a third of the keys.
+      expect(moved.remove).toBeGreaterThan(0.2);
+      expect(moved.remove).toBeLessThan(0.45);
+      expect(moved.down).toBe(moved.remove);
+      // A fourth server takes about a quarter.
+      expect(moved.add).toBeGreaterThan(0.15);
+      expect(moved.add).toBeLessThan(0.35);
+    }
+  );
+
+  it("keeps Maglev close to the minimum", () => {
+    const moved = row("maglev");
+    expect(moved.down).toBeLessThan(0.5);
+    expect(moved.add).toBeLessThan(0.5);
+  });
+
+  it("shows modulo hashing reshuffling most keys on a join", () => {
+    expect(row("modulo").add).toBeGreaterThan(0.5);
+    expect(row("modulo").add).toBeGreaterThan(row("ring-hash").add);
+  });
+});
+
+describe("ringLookup", () => {
+  it("gives the same answer after the ring was evicted and rebuilt", () => {
+    const before = ringLookup(nodes, ["srv-1", "srv-2", "srv-3"], "client-7");
+    for (let i = 1; i <= 20; i += 1) {
+      const ramped = nodes.map((node) => ({ ...node, weight: 1 + i / 10 }));
+      ringLookup(ramped, ["srv-1", "srv-2", "srv-3"], "client-7");
+    }
+    expect(ringLookup(nodes, ["srv-1", "srv-2", "srv-3"], "client-7")).toEqual(
+      before
+    );
+  });
+});
@@ -0,0 +1,237 @@
+import { hashKey } from "./hash";
+import type { ServerState } from "./types";
+
+export type HashNode = Pick<ServerState, "id" | "weight">;
+
+export type HashScheme = "ring-hash" | "maglev" | "rendezvous" | "modulo";
+
+export type RemapChange = "add" | "remove" | "down";
+
+export type RemapRow = {
+  scheme: HashScheme;
+  moved: Record<RemapChange, number>;
+};
+
+export type RemapReport = {
+  keys: number;
+  rows: RemapRow[];
+};
+
+const VNODES_PER_WEIGHT = 64;
+// Prime, and comfortably larger than any server list in the simulator.
+const MAGLEV_TABLE_SIZE = 251;
+const REPORT_KEYS = 1000;
+// Enough for a few LBs with their own view plus a remap report's before and
+// after. Ramping or adaptive weights would otherwise leave one entry behind
+// for every value they pass through.
+const CACHE_LIMIT = 4;
+
+const vnodeCount = (node: HashNode) =>
+  Math.ceil(VNODES_PER_WEIGHT * Math.max(1, node.weight));
+
+const cacheKey = (nodes: HashNode[]) =>
+  nodes.map((node) => `${node.id}:${vnodeCount(node)}`).join(",");
+
+// Returns the cached value for key, building it on a miss, and drops the
+// least recently used entry once the cache is full.
+const cached = <T>(cache: Map<string, T>, key: string, build: () => T) => {
+  const value = cache.get(key) ?? build();
+  cache.delete(key);
+  cache.set(key, value);
+  if (cache.size > CACHE_LIMIT) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  return value;
+};
+
+type RingPoint = { hash: number; serverId: string };
+
+const rings = new Map<string, RingPoint[]>();
+
+const buildRing = (nodes: HashNode[]) =>
+  cached(rings, cacheKey(nodes), () => {
+    const ring: RingPoint[] = [];
+    for (const node of nodes) {
+      const vnodes = vnodeCount(node);
+      for (let i = 0; i < vnodes; i += 1) {
+        ring.push({ hash: hashKey(`${node.id}#${i}`), serverId: node.id });
+      }
+    }
+    return ring.sort((a, b) => a.hash - b.hash);
+  });
+
+// The ring holds every configured server; keys owned by an unavailable one
+// walk clockwise to the next available point, so nobody else's keys move.
+export const ringLookup = (
+  nodes: HashNode[],
+  availableIds: string[],
+  key: string
+) => {
+  const ring = buildRing(nodes);
+  if (!ring.length) return null;
+  const hash = hashKey(key);
+  let low = 0;
+  let high = ring.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (ring[mid].hash < hash) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  for (let step = 0; step < ring.length; step += 1) {
+    const point = ring[(low + step) % ring.length];
+    if (availableIds.includes(point.serverId)) {
+      return { serverId: point.serverId, hops: step };
+    }
+  }
+  return null;
+};
+
+const maglevTables = new Map<string, string[]>();
+
+// Each server walks its own permutation of the table and claims the next
+// free slot, in turns, until the table is full (Eisenbud et al., 2016).
+const buildMaglevTable = (serverIds: string[]) =>
+  cached(maglevTables, serverIds.join(","), () => {
+    const size = MAGLEV_TABLE_SIZE;
+    const table: string[] = new Array(size).fill("");
+    const permutations = serverIds.map((id) => ({
+      offset: hashKey(`${id}#offset`) % size,
+      skip: (hashKey(`${id}#skip`) % (size - 1)) + 1,
+      next: 0,
+    }));
+    let filled = 0;
+    while (serverIds.length && filled < size) {
+      for (let i = 0; i < serverIds.length && filled < size; i += 1) {
+        const perm = permutations[i];
+        let slot = (perm.offset + perm.next * perm.skip) % size;
+        while (table[slot]) {
+          perm.next += 1;
+          slot = (perm.offset + perm.next * perm.skip) % size;
+        }
+        table[slot] = serverIds[i];
+        perm.next += 1;
+        filled += 1;
+      }
+    }
+    return table;
+  });
+
+// Maglev rebuilds its table from the available servers only; the
+// permutations keep most slots with their previous owner.
+export const maglevLookup = (availableIds: string[], key: string) => {
+  if (!availableIds.length) return null;
+  const table = buildMaglevTable(availableIds);
+  const slot = hashKey(key) % table.length;
+  return { serverId: table[slot], slot };
+};
+
+// Highest random weight: every server scores the key and the best score
+// wins. The -weight / ln(u) form keeps shares proportional to weight.
+export const rendezvousLookup = (
+  nodes: HashNode[],
+  availableIds: string[],
+  key: string
+) => {
+  const scores = nodes
+    .filter((node) => availableIds.includes(node.id))
+    .map((node) => {
+      const unit = (hashKey(`${key}|${node.id}`) + 1) / 0x100000001;
+      return {
+        serverId: node.id,
+        score: -Math.max(1, node.weight) / Math.log(unit),
+      };
+    });
+  if (!scores.length) return null;
+  const best = scores.reduce((top, item) =>
+    item.score > top.score ? item : top
+  );
+  return { serverId: best.serverId, scores };
+};
+
+// hash % n over the configured list, probing forward past unavailable
+// servers. Any change to n reshuffles almost every key.
+const moduloLookup = (
+  nodes: HashNode[],
+  availableIds: string[],
+  key: string
+) => {
+  const start = hashKey(key) % Math.max(1, nodes.length);
+  for (let step = 0; step < nodes.length; step += 1) {
+    const node = nodes[(start + step) % nodes.length];
+    if (availableIds.includes(node.id)) return node.id;
+  }
+  return null;
+};
+
+const lookup = (
+  scheme: HashScheme,
+  nodes: HashNode[],
+  availableIds: string[],
+  key: string
+) => {
+  if (scheme === "ring-hash") {
+    return ringLookup(nodes, availableIds, key)?.serverId ?? null;
+  }
+  if (scheme === "maglev") {
+    return maglevLookup(availableIds, key)?.serverId ?? null;
+  }
+  if (scheme === "rendezvous") {
+    return rendezvousLookup(nodes, availableIds, key)?.serverId ?? null;
+  }
+  return moduloLookup(nodes, availableIds, key);
+};
+
+const movedShare = (
+  scheme: HashScheme,
+  keys: string[],
+  before: { nodes: HashNode[]; availableIds: string[] },
+  after: { nodes: HashNode[]; availableIds: string[] }
+) => {
+  const moved = keys.filter(
+    (key) =>
+      lookup(scheme, before.nodes, before.availableIds, key) !==
+      lookup(scheme, after.nodes, after.availableIds, key)
+  ).length;
+  return keys.length ? moved / keys.length : 0;
+};
+
+// Share of keys that land on a different server when one server joins,
+// leaves the configuration, or stays configured but is marked DOWN. Plain
+// modulo hashing is included as the baseline the other schemes improve on.
+export const remapReport = (
+  nodes: HashNode[],
+  keyCount = REPORT_KEYS
+): RemapReport => {
+  const keys = Array.from({ length: keyCount }, (_, i) => `key-${i + 1}`);
+  const ids = nodes.map((node) => node.id);
+  const last = nodes[nodes.length - 1];
+  const baseline = { nodes, availableIds: ids };
+  const added = [...nodes, { id: `srv-${nodes.length + 1}-new`, weight: 1 }];
+  const remaining = nodes.slice(0, -1);
+  const schemes: HashScheme[] = ["ring-hash", "maglev", "rendezvous", "modulo"];
+
+  return {
+    keys: keyCount,
+    rows: schemes.map((scheme) => ({
+      scheme,
+      moved: {
+        add: movedShare(scheme, keys, baseline, {
+          nodes: added,
+          availableIds: added.map((node) => node.id),
+        }),
+        remove: movedShare(scheme, keys, baseline, {
+          nodes: remaining,
+          availableIds: remaining.map((node) => node.id),
+        }),
+        down: movedShare(scheme, keys, baseline, {
+          nodes,
+          availableIds: ids.filter((id) => id !== last?.id),
+        }),
+      },
+    })),
+  };
+};
@@ -0,0 +1,79 @@
+import { failRequest } from "./engine";
+import { pushLog } from "./log";
+import type { ServerState, SimulationState } from "./types";
+
+const logDrain = (
+  state: SimulationState,
+  server: ServerState,
+  message: string
+) => {
+  pushLog(state, {
+    id: 0,
+    timeMs: state.timeMs,
+    status: "drain",
+    message,
+    serverId: server.id,
+  });
+};
+
+// A DRAINING server gets drainTimeoutMs from the moment it started draining.
+export const drainDeadline = (state: SimulationState, server: ServerState) =>
+  server.lastHealthChangeMs + state.drainTimeoutMs;
+
+// Stops new traffic to the server; what it already holds may finish.
+// Returns the deadline so the event engine can wake up for it.
+export const startDraining = (state: SimulationState, server: ServerState) => {
+  server.health = "DRAINING";
+  server.lastHealthChangeMs = state.timeMs;
+  logDrain(
+    state,
+    server,
+    `${server.id} draining, ${Math.round(state.drainTimeoutMs / 1000)}s to finish`
+  );
+  return drainDeadline(state, server);
+};
+
+const removeServer = (state: SimulationState, server: ServerState) => {
+  state.servers = state.servers.filter((item) => item !== server);
+  for (const lb of state.loadBalancers) {
+    delete lb.healthSnapshot[server.id];
+    delete lb.probes[server.id];
+    delete lb.breakers[server.id];
+    delete lb.smoothWeights[server.id];
+  }
+};
+
+// A draining server is deregistered once it is empty; at the drain timeout
+// whatever it still holds is cut off. Probes do not hold it back.
+export const settleDrains = (state: SimulationState) => {
+  for (const server of [...state.servers]) {
+    if (server.health !== "DRAINING") continue;
+    const leftovers = [...server.inflight, ...server.queue].filter(
+      (req) => !req.isProbe && req.status !== "failed"
+    );
+    if (leftovers.length && drainDeadline(state, server) > state.timeMs) {
+      continue;
+    }
+
+    for (const req of leftovers) {
+      const lb = state.loadBalancers.find((item) => item.id === req.lbId);
+      if (lb) {
+        lb.activeConnections = Math.max(0, lb.activeConnections - 1);
+      }
+      failRequest(state, req, "server deregistered", {
+        lbId: req.lbId,
+        serverId: server.id,
+      });
+    }
+    removeServer(state, server);
+    logDrain(
+      state,
+      server,
+      leftovers.length
+        ? `${server.id} deregistered at drain timeout, ${leftovers.length} request${
+            leftovers.length === 1 ? "" : "s"
+          } cut off`
+        : `${server.id} deregistered after draining`
+    );
+  }
+};
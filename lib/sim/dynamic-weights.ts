@@ -0,0 +1,50 @@
+import type { ServerState, SimulationState } from "./types";
+
+// In errors mode one failure costs a quarter of the configured weight and
+// each success gives back a twentieth, so recovery is deliberately slower.
+const ERROR_PENALTY = 1 / 4;
+const SUCCESS_CREDIT = 1 / 20;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const clampWeight = (
+  state: SimulationState,
+  server: ServerState,
+  value: number
+) =>
+  round(
+    Math.min(
+      server.baseWeight,
+      Math.max(server.baseWeight * state.dynamicWeights.minFactor, value)
+    )
+  );
+
+const followLatency = (state: SimulationState) => {
+  const live = state.servers.filter((server) => server.health !== "DOWN");
+  if (!live.length) return;
+  const fastest = Math.min(...live.map((server) => server.ewmaLatencyMs));
+  for (const server of live) {
+    const factor =
+      server.ewmaLatencyMs > 0 ? fastest / server.ewmaLatencyMs : 1;
+    server.weight = clampWeight(state, server, server.baseWeight * factor);
+  }
+};
+
+// Called with every outcome the LB can pin on a server.
+export const recordWeightFeedback = (
+  state: SimulationState,
+  server: ServerState,
+  outcome: "ok" | "failed"
+) => {
+  const { mode } = state.dynamicWeights;
+  if (mode === "latency") {
+    if (outcome === "ok") followLatency(state);
+    return;
+  }
+  if (mode !== "errors") return;
+  const step =
+    outcome === "ok"
+      ? server.baseWeight * SUCCESS_CREDIT
+      : -server.baseWeight * ERROR_PENALTY;
+  server.weight = clampWeight(state, server, server.weight + step);
+};
@@ -0,0 +1,1031 @@
+import { getAlgorithm } from "./algorithms";
+import { rememberSession, resolveAffinity } from "./affinity";
+import {
+  breakerAllows,
+  classifyLatency,
+  recordBreakerCall,
+  recordBreakerOutcome,
+} from "./circuit-breaker";
+import { recordWeightFeedback } from "./dynamic-weights";
+import { getFrontDoorPolicy } from "./front-door";
+import { pushLog } from "./log";
+import { observePeakEwma } from "./peak-ewma";
+import {
+  applySlowStartWeights,
+  coldCacheFactor,
+  markCold,
+  slowStartAllows,
+} from "./warm-up";
+import { nextRandom, sampleServiceTime } from "./random";
+import { requestKey, sampleClient } from "./clients";
+import { networkDelayMs, zoneCandidates } from "./zones";
+import {
+  clientDeadlineMs,
+  clientLinkId,
+  lostOnLink,
+  serverLinkId,
+  traverseLink,
+} from "./network";
+import { depositRetryBudget, planRetry } from "./retries";
+import { pickRequestClass } from "./workloads";
+import type {
+  CandidateExclusion,
+  ClientIdentity,
+  FaultAction,
+  LoadBalancerState,
+  LogStatus,
+  MetricsPoint,
+  Request,
+  RequestAttributes,
+  ServerState,
+  SimEvent,
+  SimulationState,
+} from "./types";
+
+// Request lifecycle shared by the tick and event engines. Every helper reads
+// "now" from state.timeMs, so the event engine moves the clock per event.
+
+const METRICS_LIMIT = 160;
+const SAMPLE_LIMIT = 260;
+const DECISION_LIMIT = 20;
+
+const cloneServer = (server: ServerState): ServerState => ({
+  ...server,
+  inflight: [...server.inflight],
+  queue: [...server.queue],
+});
+
+const cloneLb = (lb: LoadBalancerState): LoadBalancerState => ({
+  ...lb,
+  queue: [...lb.queue],
+  healthSnapshot: { ...lb.healthSnapshot },
+  smoothWeights: { ...lb.smoothWeights },
+  probes: Object.fromEntries(
+    Object.entries(lb.probes).map(([id, probe]) => [id, { ...probe }])
+  ),
+  breakers: Object.fromEntries(
+    Object.entries(lb.breakers).map(([id, breaker]) => [
+      id,
+      { ...breaker, window: [...breaker.window] },
+    ])
+  ),
+});
+
+export const cloneState = (prev: SimulationState): SimulationState => ({
+  ...prev,
+  servers: prev.servers.map(cloneServer),
+  loadBalancers: prev.loadBalancers.map(cloneLb),
+  log: [...prev.log],
+  metrics: [...prev.metrics],
+  recentLatencies: [...prev.recentLatencies],
+  recentDecisions: [...prev.recentDecisions],
+  recentLbWaits: [...prev.recentLbWaits],
+  recentServerWaits: [...prev.recentServerWaits],
+  totals: { ...prev.totals },
+  sessions: { ...prev.sessions },
+  retryBudget: { ...prev.retryBudget },
+  autoscaler: {
+    ...prev.autoscaler,
+    pending: [...prev.autoscaler.pending],
+  },
+  eventQueue: [...prev.eventQueue],
+  trace: prev.trace && { ...prev.trace },
+  users: prev.users.map((user) => ({ ...user })),
+  classStats: Object.fromEntries(
+    Object.entries(prev.classStats).map(([id, stats]) => [
+      id,
+      { ...stats, recentLatencies: [...stats.recentLatencies] },
+    ])
+  ),
+});
+
+export const pushSample = (values: number[], value: number) => {
+  values.push(value);
+  if (values.length > SAMPLE_LIMIT) {
+    values.splice(0, values.length - SAMPLE_LIMIT);
+  }
+};
+
+export const avg = (values: number[]) =>
+  values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+
+export const p95 = (values: number[]) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95));
+  return sorted[index];
+};
+
+type WithoutSeq<E> = E extends SimEvent ? Omit<E, "seq"> : never;
+export type EventInput = WithoutSeq<SimEvent>;
+
+const compareEvents = (a: SimEvent, b: SimEvent) =>
+  a.timeMs - b.timeMs || a.seq - b.seq;
+
+export const scheduleEvent = (state: SimulationState, input: EventInput) => {
+  const event = { ...input, seq: state.nextEventSeq++ } as SimEvent;
+  const queue = state.eventQueue;
+  let low = 0;
+  let high = queue.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (compareEvents(queue[mid], event) <= 0) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  queue.splice(low, 0, event);
+};
+
+// Active-passive sends everything to the current leader, even while it is
+// down and nobody has noticed yet; active-active asks the front-door policy
+// to spread arrivals across every LB not known to have failed.
+export const pickEntryLb = (state: SimulationState, req: Request) => {
+  if (state.lbMode !== "active-active") {
+    return state.loadBalancers.find((lb) => lb.id === state.leaderLbId) ?? null;
+  }
+  const reachable = state.loadBalancers.filter((lb) => !lb.failureDetected);
+  // Zone-aware setups resolve clients to an LB in their own zone if any.
+  const local = reachable.filter(
+    (lb) => lb.zone !== undefined && lb.zone === req.client?.zone
+  );
+  const candidates =
+    state.zones.routing !== "off" && local.length ? local : reachable;
+  const policy = getFrontDoorPolicy(state.frontDoorPolicy);
+  const result = policy.select({
+    loadBalancers: candidates,
+    index: state.frontDoorIndex,
+    key: req.client?.sourceIp ?? String(req.id),
+    random: () => nextRandom(state),
+  });
+  if (result.index !== undefined) {
+    state.frontDoorIndex = result.index;
+  }
+  return candidates.find((lb) => lb.id === result.lbId) ?? null;
+};
+
+// In active-active mode an LB only knows about the connections it opened
+// itself, so load-aware algorithms see a partial picture of each server.
+const serversAsSeenBy = (state: SimulationState, lb: LoadBalancerState) => {
+  const servers =
+    state.lbMode !== "active-active"
+      ? state.servers
+      : state.servers.map((server) => ({
+          ...server,
+          inflight: server.inflight.filter((req) => req.lbId === lb.id),
+          queue: server.queue.filter((req) => req.lbId === lb.id),
+        }));
+  return applySlowStartWeights(state, lb, servers);
+};
+
+export const isServerAvailable = (server: ServerState) => {
+  if (server.health === "DOWN" || server.health === "DRAINING") return false;
+  const capacityOpen = server.inflight.length < server.maxConcurrentRequests;
+  const queueOpen = server.queue.length < server.serverQueueSize;
+  return capacityOpen || queueOpen;
+};
+
+const loadFactor = (server: ServerState, alpha: number): number => {
+  const utilization =
+    server.maxConcurrentRequests === 0
+      ? 1
+      : server.inflight.length / server.maxConcurrentRequests;
+  const multiplier =
+    server.health === "SLOW" ? server.slowMultiplier : 1;
+  return multiplier * (1 + alpha * utilization ** 2);
+};
+
+const computeProcessingTime = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+): number =>
+  (req.attributes?.serviceTimeMs ?? server.baseLatencyMs) *
+  (req.attributes?.serviceMultiplier ?? 1) *
+  loadFactor(server, state.ewmaAlpha) *
+  coldCacheFactor(state, server);
+
+// A recorded service time is already a sample, so it is not drawn again.
+const drawProcessingTime = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+) =>
+  req.attributes?.serviceTimeMs !== undefined
+    ? computeProcessingTime(state, server, req)
+    : sampleServiceTime(
+        state,
+        state.serviceTime,
+        computeProcessingTime(state, server, req)
+      );
+
+// Probes hit a cheap endpoint, but still slow down with the server.
+const probeProcessingTime = (state: SimulationState, server: ServerState) =>
+  state.healthCheck.probeCostMs * loadFactor(server, state.ewmaAlpha);
+
+type FailureContext = {
+  lbId?: string;
+  serverId?: string;
+  verb?: "failed" | "rejected";
+  logStatus?: LogStatus;
+};
+
+const recordClassOutcome = (
+  state: SimulationState,
+  req: Request,
+  completed: boolean
+) => {
+  const classId = req.attributes?.classId;
+  if (!classId) return;
+  const stats = state.classStats[classId] ?? {
+    completed: 0,
+    failed: 0,
+    recentLatencies: [],
+  };
+  state.classStats[classId] = stats;
+  if (completed) {
+    stats.completed += 1;
+    pushSample(stats.recentLatencies, req.latencyMs ?? 0);
+  } else {
+    stats.failed += 1;
+  }
+};
+
+// The id the client knows a request by: retries and hedge copies answer for
+// the request that started them.
+const clientRequestId = (req: Request) =>
+  req.originalId ?? req.hedgeOf ?? req.id;
+
+// True while the other copy of a hedge pair still waits on or runs at a
+// server, so the pair has not settled yet.
+const hedgePeerPending = (state: SimulationState, req: Request) => {
+  const peerId = req.hedgeOf ?? req.hedgeId;
+  if (peerId === undefined) return false;
+  return state.servers.some((server) =>
+    [...server.inflight, ...server.queue].some(
+      (item) =>
+        item.id === peerId &&
+        !item.hedgeLost &&
+        item.status !== "failed" &&
+        item.status !== "completed"
+    )
+  );
+};
+
+// A closed-loop user hears back once per request: when it completes (and its
+// response has crossed the network) or fails for good. A hedged request is
+// answered by whichever copy settles the pair; failRequest never gets here
+// for a copy whose peer is still pending. Then the user thinks and sends
+// again.
+const releaseUser = (
+  state: SimulationState,
+  req: Request,
+  completed: boolean
+) => {
+  const config = state.closedLoop;
+  const user = state.users.find((item) => item.id === req.client?.clientId);
+  if (!config || !user) return;
+  if (user.waitingOn !== clientRequestId(req)) return;
+  user.waitingOn = null;
+  if (completed) {
+    user.completed += 1;
+    user.totalResponseMs += req.latencyMs ?? 0;
+  } else {
+    user.failed += 1;
+  }
+  const thinkMs = sampleServiceTime(state, config.thinkTime, config.thinkTimeMs);
+  scheduleEvent(state, {
+    kind: "user-send",
+    userId: user.id,
+    // At least 1ms, so a user whose requests fail at once cannot spin.
+    timeMs:
+      state.timeMs + (completed ? req.networkMs ?? 0 : 0) + Math.max(1, thinkMs),
+  });
+};
+
+// Returns false when the request was one copy of a hedge pair whose other copy
+// is still pending or has already answered. That copy retires without
+// counting as a failure; the pair fails, retries or releases its user once.
+export const failRequest = (
+  state: SimulationState,
+  req: Request,
+  reason: string,
+  context: FailureContext = {}
+) => {
+  const verb = context.verb ?? "failed";
+  req.status = "failed";
+  req.failureReason = reason;
+  if (req.hedgeLost || hedgePeerPending(state, req)) {
+    pushLog(state, {
+      id: req.id,
+      timeMs: state.timeMs,
+      status: "hedge",
+      message: `Request ${req.id} left its hedge pair: ${reason}`,
+      lbId: context.lbId,
+      serverId: context.serverId,
+    });
+    return false;
+  }
+  if (verb === "failed") {
+    state.totals.failed += 1;
+  }
+  recordClassOutcome(state, req, false);
+  pushLog(state, {
+    id: req.id,
+    timeMs: state.timeMs,
+    status: context.logStatus ?? "failed",
+    message: `Request ${req.id} ${verb}: ${reason}`,
+    lbId: context.lbId,
+    serverId: context.serverId,
+  });
+
+  const delayMs = planRetry(state, req);
+  if (delayMs === null) {
+    releaseUser(state, req, false);
+    return true;
+  }
+  const originalId = clientRequestId(req);
+  const attempt = (req.attempt ?? 1) + 1;
+  state.totals.retries += 1;
+  scheduleEvent(state, {
+    kind: "retry",
+    originalId,
+    attempt,
+    client: req.client,
+    attributes: req.attributes,
+    timeMs: state.timeMs + delayMs,
+  });
+  pushLog(state, {
+    id: req.id,
+    timeMs: state.timeMs,
+    status: "retry",
+    message: `Request ${originalId} attempt ${attempt} in ${Math.round(delayMs)}ms`,
+    lbId: context.lbId,
+  });
+  return true;
+};
+
+type RequestOrigin = {
+  originalId?: number;
+  attempt?: number;
+  client?: ClientIdentity;
+  attributes?: RequestAttributes;
+};
+
+// Retries get a fresh id but keep a link to the request the client sent first.
+// Replayed requests bring their recorded client and attributes; new ones
+// draw a class from the workload's mix.
+export const createRequest = (
+  state: SimulationState,
+  origin?: RequestOrigin
+): Request => {
+  if (origin?.originalId === undefined) {
+    depositRetryBudget(state);
+  }
+  const { clientTimeoutMs } = state.timeouts;
+  return {
+    id: state.nextRequestId++,
+    ...origin,
+    client: origin?.client ?? sampleClient(state),
+    attributes: origin?.attributes ?? pickRequestClass(state),
+    arrivalTimeMs: state.timeMs,
+    deadlineMs:
+      clientTimeoutMs === null ? undefined : state.timeMs + clientTimeoutMs,
+    lbQueueEnterMs: state.timeMs,
+    status: "arrived",
+  };
+};
+
+export const admitRequest = (
+  state: SimulationState,
+  lb: LoadBalancerState | null,
+  req: Request
+) => {
+  if (!lb || !lb.isUp) {
+    failRequest(state, req, "load balancer unavailable", { lbId: lb?.id });
+    return false;
+  }
+
+  const linkId = clientLinkId(lb.id);
+  const uplinkMs = traverseLink(
+    state,
+    linkId,
+    req.attributes?.requestBytes ?? state.network.requestBytes
+  );
+  if (uplinkMs === null) {
+    failRequest(state, req, lostOnLink(state, linkId), { lbId: lb.id });
+    return false;
+  }
+  req.uplinkMs = uplinkMs;
+
+  if (lb.queue.length >= lb.queueSize) {
+    lb.droppedRequests += 1;
+    state.totals.droppedLb += 1;
+    failRequest(state, req, "lb queue full (503)", {
+      lbId: lb.id,
+      verb: "rejected",
+    });
+    return false;
+  }
+
+  req.status = "lb-queued";
+  lb.queue.push(req);
+  return true;
+};
+
+export const startProcessing = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+) => {
+  req.startProcessingMs = state.timeMs;
+  req.processingTimeMs = req.isProbe
+    ? probeProcessingTime(state, server)
+    : drawProcessingTime(state, server, req);
+  req.remainingTimeMs = req.processingTimeMs;
+  req.status = "processing";
+  server.inflight.push(req);
+  if (!req.isProbe) {
+    state.totals.started += 1;
+  }
+};
+
+// With deadline checks on, a server refuses work it cannot finish before the
+// earlier of the client and LB deadlines, instead of doing it for nobody.
+const missesDeadline = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+) => {
+  if (!state.timeouts.serverDeadlineChecks || req.isProbe) return false;
+  const deadlineMs = Math.min(
+    clientDeadlineMs(req) ?? Infinity,
+    req.upstreamDeadlineMs ?? Infinity
+  );
+  return (
+    state.timeMs + computeProcessingTime(state, server, req) > deadlineMs
+  );
+};
+
+const rejectPastDeadline = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+) => {
+  const lb = state.loadBalancers.find((item) => item.id === req.lbId);
+  if (lb) {
+    lb.activeConnections = Math.max(0, lb.activeConnections - 1);
+  }
+  failRequest(state, req, "server deadline exceeded", {
+    lbId: req.lbId,
+    serverId: server.id,
+    logStatus: "timeout",
+  });
+};
+
+export type RouteOutcome =
+  | { kind: "failed"; req: Request }
+  | { kind: "server-full"; req: Request; server: ServerState }
+  | { kind: "processing"; req: Request; server: ServerState }
+  | { kind: "server-queued"; req: Request; server: ServerState };
+
+// The first reason a server cannot take this request, checked in the same
+// order the LB filters on; the breaker is only asked about servers that
+// passed everything else, since asking can move it to half-open.
+const exclusionFor = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  server: ServerState,
+  excludeIds: string[]
+): CandidateExclusion | undefined => {
+  if (excludeIds.includes(server.id)) return "hedge-origin";
+  if (!lb.healthSnapshot[server.id] || server.health === "DOWN") {
+    return "unhealthy";
+  }
+  if (server.health === "DRAINING") return "draining";
+  if (!isServerAvailable(server)) return "capacity";
+  if (!slowStartAllows(state, lb, server)) return "slow-start";
+  if (!breakerAllows(state, lb, server.id)) return "circuit-open";
+  return undefined;
+};
+
+// Takes the head of the LB queue and places it on a server (or fails it).
+export const routeNextRequest = (
+  state: SimulationState,
+  lb: LoadBalancerState
+): RouteOutcome | null => {
+  const req = lb.queue.shift();
+  if (!req) return null;
+  req.lbQueueExitMs = state.timeMs;
+  req.lbQueueWaitMs = req.lbQueueExitMs - (req.lbQueueEnterMs ?? req.arrivalTimeMs);
+  pushSample(state.recentLbWaits, req.lbQueueWaitMs);
+  return placeRequest(state, lb, req);
+};
+
+// Lets the LB's algorithm pick a server for the request and hands it over.
+// excludeIds keeps a hedge off the server already working on the original.
+export const placeRequest = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  req: Request,
+  excludeIds: string[] = []
+): RouteOutcome => {
+  const algorithm = getAlgorithm(lb.routingAlgorithm ?? state.algorithmId);
+  const exclusions = new Map(
+    state.servers.map((server) => [
+      server.id,
+      exclusionFor(state, lb, server, excludeIds),
+    ])
+  );
+  const availableIds = zoneCandidates(
+    state,
+    lb,
+    state.servers
+      .filter((server) => !exclusions.get(server.id))
+      .map((server) => server.id)
+  );
+  for (const server of state.servers) {
+    if (!exclusions.get(server.id) && !availableIds.includes(server.id)) {
+      exclusions.set(server.id, "other-zone");
+    }
+  }
+  const seenServers = serversAsSeenBy(state, lb);
+
+  const selection =
+    resolveAffinity(state, lb, req) ??
+    algorithm.select({
+      servers: seenServers,
+      availableIds,
+      rrIndex: lb.rrIndex,
+      smoothWeights: lb.smoothWeights,
+      requestId: req.id,
+      key: requestKey(req),
+      timeMs: state.timeMs,
+      random: () => nextRandom(state),
+      jsqChoices: state.jsqChoices,
+    });
+
+  if (selection.rrIndex !== undefined) {
+    lb.rrIndex = selection.rrIndex;
+  }
+  if (selection.smoothWeights) {
+    lb.smoothWeights = selection.smoothWeights;
+  }
+  req.decision = {
+    requestId: req.id,
+    timeMs: state.timeMs,
+    lbId: lb.id,
+    algorithmId: algorithm.id,
+    reason: selection.reason,
+    scoreLabel: selection.scoreLabel,
+    candidates: seenServers.map((server) => ({
+      serverId: server.id,
+      inflight: server.inflight.length,
+      queued: server.queue.length,
+      ewmaLatencyMs: server.ewmaLatencyMs,
+      score: selection.scores?.[server.id],
+      excluded: exclusions.get(server.id),
+      chosen: server.id === selection.serverId,
+    })),
+  };
+  state.recentDecisions.push(req.decision);
+  if (state.recentDecisions.length > DECISION_LIMIT) {
+    state.recentDecisions.splice(
+      0,
+      state.recentDecisions.length - DECISION_LIMIT
+    );
+  }
+
+  if (!selection.serverId) {
+    failRequest(state, req, selection.reason, { lbId: lb.id });
+    return { kind: "failed", req };
+  }
+
+  const server = state.servers.find((item) => item.id === selection.serverId);
+  if (!server) {
+    failRequest(state, req, "server not found", { lbId: lb.id });
+    return { kind: "failed", req };
+  }
+
+  if (!isServerAvailable(server)) {
+    server.totalFailed += 1;
+    failRequest(state, req, "server unavailable", {
+      lbId: lb.id,
+      serverId: server.id,
+    });
+    recordBreakerOutcome(state, lb.id, server.id, req, "failed");
+    recordWeightFeedback(state, server, "failed");
+    return { kind: "failed", req };
+  }
+
+  req.lbId = lb.id;
+  req.serverId = server.id;
+  req.algorithmId = algorithm.id;
+  req.decisionReason = selection.reason;
+  const linkId = serverLinkId(lb.id, server.id);
+  const upstreamMs = traverseLink(
+    state,
+    linkId,
+    req.attributes?.requestBytes ?? state.network.requestBytes
+  );
+  if (upstreamMs === null) {
+    failRequest(state, req, lostOnLink(state, linkId), {
+      lbId: lb.id,
+      serverId: server.id,
+    });
+    recordBreakerOutcome(state, lb.id, server.id, req, "failed");
+    recordWeightFeedback(state, server, "failed");
+    return { kind: "failed", req };
+  }
+  const zoneMs = networkDelayMs(state, lb, server, req);
+  if (zoneMs > 0) {
+    state.totals.crossZone += 1;
+  }
+  req.networkMs = (req.uplinkMs ?? 0) + upstreamMs + zoneMs;
+  rememberSession(state, req, server.id);
+
+  lb.activeConnections += 1;
+  recordBreakerCall(state, lb, server.id, req);
+  const { lbUpstreamTimeoutMs } = state.timeouts;
+  if (lbUpstreamTimeoutMs !== null) {
+    // The LB's clock starts as the request leaves it.
+    req.upstreamDeadlineMs =
+      state.timeMs + lbUpstreamTimeoutMs - upstreamMs - zoneMs;
+  }
+
+  if (server.inflight.length < server.maxConcurrentRequests) {
+    if (missesDeadline(state, server, req)) {
+      rejectPastDeadline(state, server, req);
+      return { kind: "failed", req };
+    }
+    startProcessing(state, server, req);
+    pushLog(state, {
+      id: req.id,
+      timeMs: state.timeMs,
+      status: "processing",
+      message: `Request ${req.id} -> ${server.id} (${selection.reason})`,
+      lbId: lb.id,
+      serverId: server.id,
+    });
+    return { kind: "processing", req, server };
+  }
+
+  if (server.queue.length < server.serverQueueSize) {
+    req.serverQueueEnterMs = state.timeMs;
+    req.status = "server-queued";
+    server.queue.push(req);
+    pushLog(state, {
+      id: req.id,
+      timeMs: state.timeMs,
+      status: "server-queued",
+      message: `Request ${req.id} queued on ${server.id} (${selection.reason})`,
+      lbId: lb.id,
+      serverId: server.id,
+    });
+    return { kind: "server-queued", req, server };
+  }
+
+  state.totals.droppedServer += 1;
+  server.totalFailed += 1;
+  failRequest(state, req, "server queue full (503)", {
+    lbId: lb.id,
+    serverId: server.id,
+  });
+  recordBreakerOutcome(state, lb.id, server.id, req, "failed");
+  recordWeightFeedback(state, server, "failed");
+  lb.activeConnections = Math.max(0, lb.activeConnections - 1);
+  return { kind: "server-full", req, server };
+};
+
+// Moves queued requests into free server slots and returns the ones started.
+export const promoteServerQueue = (
+  state: SimulationState,
+  server: ServerState
+) => {
+  const started: Request[] = [];
+  while (
+    server.queue.length &&
+    server.inflight.length < server.maxConcurrentRequests
+  ) {
+    const req = server.queue.shift();
+    if (!req) break;
+    // The client already gave up on it; the server notices the closed socket.
+    if (req.status === "failed") continue;
+    if (missesDeadline(state, server, req)) {
+      rejectPastDeadline(state, server, req);
+      continue;
+    }
+    req.serverQueueExitMs = state.timeMs;
+    req.serverQueueWaitMs =
+      (req.serverQueueExitMs ?? state.timeMs) -
+      (req.serverQueueEnterMs ?? state.timeMs);
+    // Probes are synthetic; their waits would skew what clients see.
+    if (!req.isProbe) {
+      pushSample(state.recentServerWaits, req.serverQueueWaitMs);
+    }
+
+    startProcessing(state, server, req);
+    started.push(req);
+  }
+  return started;
+};
+
+// The response goes back over the LB's link to the server, then the client's
+// link. Returns its transit time, or null once a lost response has failed
+// the request; only a loss between LB and server counts against the server.
+const returnResponse = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+) => {
+  const lbId = req.lbId;
+  if (!lbId) return 0;
+  let transitMs = 0;
+  for (const linkId of [serverLinkId(lbId, server.id), clientLinkId(lbId)]) {
+    const linkMs = traverseLink(
+      state,
+      linkId,
+      req.attributes?.sizeBytes ?? state.network.responseBytes
+    );
+    if (linkMs !== null) {
+      transitMs += linkMs;
+      continue;
+    }
+    const lb = state.loadBalancers.find((item) => item.id === lbId);
+    if (lb) {
+      lb.activeConnections = Math.max(0, lb.activeConnections - 1);
+    }
+    failRequest(state, req, lostOnLink(state, linkId), {
+      lbId,
+      serverId: server.id,
+    });
+    if (linkId !== clientLinkId(lbId)) {
+      recordBreakerOutcome(state, lbId, server.id, req, "failed");
+    }
+    return null;
+  }
+  return transitMs;
+};
+
+// The server answered, but the response would reach the client after it gave
+// up. The server did its job; the client sees a timeout.
+const failLateResponse = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+) => {
+  const lb = state.loadBalancers.find((item) => item.id === req.lbId);
+  if (lb) {
+    lb.activeConnections = Math.max(0, lb.activeConnections - 1);
+  }
+  server.totalProcessed += 1;
+  const settled = failRequest(state, req, "client timeout", {
+    lbId: req.lbId,
+    serverId: server.id,
+    logStatus: "timeout",
+  });
+  if (settled) {
+    state.totals.timedOut += 1;
+  }
+};
+
+// Records a finished request. The caller removes it from server.inflight.
+// Requests already failed elsewhere only free their slot; the time the server
+// spent on them is wasted work.
+export const completeRequest = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+) => {
+  if (req.status === "failed") {
+    const wastedMs = req.processingTimeMs ?? 0;
+    state.totals.wastedRequests += 1;
+    state.totals.wastedWorkMs += wastedMs;
+    pushLog(state, {
+      id: req.id,
+      timeMs: state.timeMs,
+      status: "wasted",
+      message: `Request ${req.id} finished on ${server.id} after its client gave up (${Math.round(
+        wastedMs
+      )}ms wasted)`,
+      lbId: req.lbId,
+      serverId: server.id,
+    });
+    return;
+  }
+  if (server.errorRate > 0 && nextRandom(state) < server.errorRate) {
+    const lb = state.loadBalancers.find((item) => item.id === req.lbId);
+    if (lb) {
+      lb.activeConnections = Math.max(0, lb.activeConnections - 1);
+    }
+    server.totalFailed += 1;
+    failRequest(state, req, "server error (500)", {
+      lbId: req.lbId,
+      serverId: server.id,
+    });
+    recordBreakerOutcome(state, req.lbId, server.id, req, "failed");
+    recordWeightFeedback(state, server, "failed");
+    return;
+  }
+  const downlinkMs = returnResponse(state, server, req);
+  if (downlinkMs === null) return;
+  req.networkMs = (req.networkMs ?? 0) + downlinkMs;
+  if (
+    req.deadlineMs !== undefined &&
+    state.timeMs + req.networkMs > req.deadlineMs
+  ) {
+    failLateResponse(state, server, req);
+    return;
+  }
+  req.endTimeMs = state.timeMs;
+  req.remainingTimeMs = 0;
+  req.status = "completed";
+  req.lbQueueWaitMs =
+    (req.lbQueueExitMs ?? state.timeMs) -
+    (req.lbQueueEnterMs ?? req.arrivalTimeMs);
+  req.serverQueueWaitMs =
+    (req.serverQueueExitMs ?? state.timeMs) -
+    (req.serverQueueEnterMs ?? req.startProcessingMs ?? state.timeMs);
+  req.processingTimeMs = req.processingTimeMs ?? 0;
+  req.latencyMs = req.endTimeMs - req.arrivalTimeMs + (req.networkMs ?? 0);
+
+  pushSample(state.recentLatencies, req.latencyMs);
+  pushSample(state.recentLbWaits, req.lbQueueWaitMs);
+  pushSample(state.recentServerWaits, req.serverQueueWaitMs);
+
+  server.totalProcessed += 1;
+  state.totals.completed += 1;
+  server.ewmaLatencyMs =
+    state.ewmaAlpha * (req.latencyMs ?? 0) +
+    (1 - state.ewmaAlpha) * server.ewmaLatencyMs;
+  observePeakEwma(
+    server,
+    req.endTimeMs - (req.lbQueueExitMs ?? req.arrivalTimeMs),
+    state.timeMs
+  );
+
+  const lb = state.loadBalancers.find((item) => item.id === req.lbId);
+  if (lb) {
+    lb.activeConnections = Math.max(0, lb.activeConnections - 1);
+  }
+
+  pushLog(state, {
+    id: req.id,
+    timeMs: state.timeMs,
+    status: "completed",
+    message: `Request ${req.id} completed on ${server.id} in ${Math.round(
+      req.latencyMs
+    )}ms${req.networkMs ? ` (${Math.round(req.networkMs)}ms network)` : ""}`,
+    lbId: req.lbId,
+    serverId: server.id,
+  });
+
+  // The breaker judges the server, so LB queueing does not count as slow.
+  recordBreakerOutcome(
+    state,
+    req.lbId,
+    server.id,
+    req,
+    classifyLatency(state, req.endTimeMs - (req.lbQueueExitMs ?? req.arrivalTimeMs))
+  );
+  recordWeightFeedback(state, server, "ok");
+  recordClassOutcome(state, req, true);
+  releaseUser(state, req, true);
+};
+
+export const recordMetrics = (state: SimulationState) => {
+  const totalInflight = state.servers.reduce(
+    (sum, server) => sum + server.inflight.length,
+    0
+  );
+  const totalServerQueued = state.servers.reduce(
+    (sum, server) => sum + server.queue.length,
+    0
+  );
+  const totalLbQueued = state.loadBalancers.reduce(
+    (sum, lb) => sum + lb.queue.length,
+    0
+  );
+
+  const avgLatency = avg(state.recentLatencies);
+  const p95Latency = p95(state.recentLatencies);
+  const failureTotal = state.totals.failed + state.totals.droppedLb + state.totals.droppedServer;
+  const totalProcessed = state.totals.completed + failureTotal;
+  const failureRate = totalProcessed ? (failureTotal / totalProcessed) * 100 : 0;
+
+  const point: MetricsPoint = {
+    timeMs: state.timeMs,
+    avgLatencyMs: avgLatency,
+    p95LatencyMs: p95Latency,
+    lbQueueDepth: totalLbQueued,
+    serverQueueDepth: totalServerQueued,
+    inflight: totalInflight,
+    failureRate,
+    dropsLb: state.totals.droppedLb,
+    dropsServer: state.totals.droppedServer,
+    retries: state.totals.retries,
+    avgLbWaitMs: avg(state.recentLbWaits),
+    avgServerWaitMs: avg(state.recentServerWaits),
+  };
+
+  state.metrics.push(point);
+  if (state.metrics.length > METRICS_LIMIT) {
+    state.metrics.splice(0, state.metrics.length - METRICS_LIMIT);
+  }
+};
+
+export const applyFault = (state: SimulationState, action: FaultAction) => {
+  if (action.kind === "server-health") {
+    const server = state.servers.find((item) => item.id === action.serverId);
+    if (!server) return;
+    if (action.slowMultiplier !== undefined) {
+      server.slowMultiplier = action.slowMultiplier;
+    } else if (server.health === action.health) {
+      return;
+    }
+    if (server.health === "DOWN" && action.health !== "DOWN") {
+      markCold(state, server);
+    }
+    if (server.health !== action.health) {
+      server.health = action.health;
+      server.lastHealthChangeMs = state.timeMs;
+    }
+    pushLog(state, {
+      id: 0,
+      timeMs: state.timeMs,
+      status: "fault",
+      message: `Fault: ${server.id} is now ${action.health}${
+        action.slowMultiplier === undefined ? "" : ` ×${action.slowMultiplier}`
+      }`,
+      serverId: server.id,
+    });
+    return;
+  }
+
+  if (action.kind === "server-error-rate") {
+    const server = state.servers.find((item) => item.id === action.serverId);
+    if (!server) return;
+    server.errorRate = action.errorRate;
+    pushLog(state, {
+      id: 0,
+      timeMs: state.timeMs,
+      status: "fault",
+      message: `Fault: ${server.id} now fails ${Math.round(
+        action.errorRate * 100
+      )}% of requests`,
+      serverId: server.id,
+    });
+    return;
+  }
+
+  if (action.kind === "zone-status") {
+    for (const server of state.servers.filter(
+      (item) => item.zone === action.zone
+    )) {
+      applyFault(state, {
+        kind: "server-health",
+        serverId: server.id,
+        health: action.isUp ? "UP" : "DOWN",
+      });
+    }
+    for (const lb of state.loadBalancers.filter(
+      (item) => item.zone === action.zone
+    )) {
+      applyFault(state, { kind: "lb-status", lbId: lb.id, isUp: action.isUp });
+    }
+    return;
+  }
+
+  if (action.kind === "link") {
+    const links = { ...state.network.links };
+    if (action.link) {
+      links[action.linkId] = { ...links[action.linkId], ...action.link };
+    } else {
+      delete links[action.linkId];
+    }
+    state.network = { ...state.network, links };
+    pushLog(state, {
+      id: 0,
+      timeMs: state.timeMs,
+      status: "fault",
+      message: action.link
+        ? `Fault: link ${action.linkId} degraded`
+        : `Fault: link ${action.linkId} restored`,
+    });
+    return;
+  }
+
+  const lb = state.loadBalancers.find((item) => item.id === action.lbId);
+  if (!lb || lb.isUp === action.isUp) return;
+  lb.isUp = action.isUp;
+  pushLog(state, {
+    id: 0,
+    timeMs: state.timeMs,
+    status: "fault",
+    message: `Fault: ${lb.id} is now ${action.isUp ? "up" : "down"}`,
+    lbId: lb.id,
+  });
+};
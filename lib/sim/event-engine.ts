@@ -0,0 +1,397 @@
+import { shapeRate } from "./workloads";
+import { sampleExponential } from "./random";
+import {
+  admitRequest,
+  applyFault,
+  cloneState,
+  createRequest,
+  pickEntryLb,
+  promoteServerQueue,
+  recordMetrics,
+  routeNextRequest,
+  scheduleEvent,
+  type RouteOutcome,
+} from "./engine";
+import {
+  completeElection,
+  detectLbFailures,
+  recordHeartbeats,
+} from "./failover";
+import { completeProbe, expireProbe, runHealthCheck } from "./health-checks";
+import { expireTimedOut } from "./timeouts";
+import { clientDeadlineMs } from "./network";
+import { armHedge, completeHedged, sendDueHedges } from "./hedging";
+import { runAutoscaler } from "./autoscaler";
+import { drainDeadline, settleDrains } from "./draining";
+import { nextTraceArrivalMs, takeTraceArrivals } from "./traces";
+import { sendUserRequest } from "./closed-loop";
+import type {
+  FaultAction,
+  LoadBalancerState,
+  Request,
+  ServerState,
+  SimEvent,
+  SimulationState,
+} from "./types";
+
+const scheduleNextArrival = (state: SimulationState) => {
+  if (state.trace) {
+    // Once a trace runs out, arrival events keep ticking over empty.
+    scheduleEvent(state, {
+      kind: "arrival",
+      timeMs: nextTraceArrivalMs(state.trace) ?? state.timeMs + state.tickMs,
+    });
+    return;
+  }
+  if (state.closedLoop) {
+    // Users send on their own events; arrivals only keep ticking.
+    scheduleEvent(state, { kind: "arrival", timeMs: state.timeMs + state.tickMs });
+    return;
+  }
+  const rate = shapeRate(state.workloadShape, state.timeMs);
+  if (rate <= 0) {
+    scheduleEvent(state, { kind: "arrival", timeMs: state.timeMs + state.tickMs });
+    return;
+  }
+  const meanGapMs = 1000 / rate;
+  const gapMs =
+    state.arrivalProcess === "poisson"
+      ? sampleExponential(state, meanGapMs)
+      : meanGapMs;
+  scheduleEvent(state, { kind: "arrival", timeMs: state.timeMs + gapMs });
+};
+
+const scheduleDispatch = (state: SimulationState, lb: LoadBalancerState) => {
+  const pending = state.eventQueue.some(
+    (event) => event.kind === "dispatch" && event.lbId === lb.id
+  );
+  if (pending) return;
+  scheduleEvent(state, {
+    kind: "dispatch",
+    lbId: lb.id,
+    timeMs: Math.max(state.timeMs, lb.nextDispatchMs),
+  });
+};
+
+const scheduleCompletion = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+) => {
+  scheduleEvent(state, {
+    kind: "completion",
+    serverId: server.id,
+    requestId: req.id,
+    timeMs: state.timeMs + (req.processingTimeMs ?? 0),
+  });
+};
+
+const scheduleTimeout = (state: SimulationState, timeMs?: number) => {
+  if (timeMs === undefined) return;
+  scheduleEvent(state, { kind: "timeout", timeMs });
+};
+
+const primeEvents = (state: SimulationState) => {
+  scheduleNextArrival(state);
+  scheduleEvent(state, {
+    kind: "heartbeat",
+    timeMs: state.timeMs + state.failover.heartbeatIntervalMs,
+  });
+  for (const lb of state.loadBalancers) {
+    scheduleEvent(state, {
+      kind: "health-check",
+      lbId: lb.id,
+      timeMs: lb.lastHealthCheckMs + state.healthCheckIntervalMs,
+    });
+  }
+  if (state.autoscaling.policy.kind !== "off") {
+    scheduleEvent(state, {
+      kind: "autoscale",
+      timeMs:
+        state.autoscaler.lastEvaluationMs +
+        state.autoscaling.evaluationIntervalMs,
+    });
+  }
+};
+
+const admitArrival = (state: SimulationState, req: Request) => {
+  const lb = pickEntryLb(state, req);
+  if (admitRequest(state, lb, req) && lb) {
+    scheduleDispatch(state, lb);
+    scheduleTimeout(state, clientDeadlineMs(req));
+  }
+};
+
+const handleArrival = (state: SimulationState) => {
+  if (state.trace) {
+    for (const req of takeTraceArrivals(state, state.timeMs)) {
+      admitArrival(state, req);
+    }
+  } else if (!state.closedLoop) {
+    admitArrival(state, createRequest(state));
+  }
+  scheduleNextArrival(state);
+};
+
+// Schedules what a freshly placed request needs: its completion if it started
+// right away, and the LB upstream timeout either way. The trip to the server
+// brought the client deadline forward, so that is checked again too.
+const followUpPlacement = (state: SimulationState, outcome: RouteOutcome) => {
+  if (outcome.kind === "processing") {
+    scheduleCompletion(state, outcome.server, outcome.req);
+  }
+  if (outcome.kind === "processing" || outcome.kind === "server-queued") {
+    scheduleTimeout(state, outcome.req.upstreamDeadlineMs);
+    scheduleTimeout(state, clientDeadlineMs(outcome.req));
+  }
+};
+
+const handleDispatch = (state: SimulationState, lbId: string) => {
+  const lb = state.loadBalancers.find((item) => item.id === lbId);
+  if (!lb || !lb.isUp || !lb.queue.length) return;
+  // Saturated LBs wait for a completion to free a connection.
+  if (lb.activeConnections >= lb.maxConcurrentConnections) return;
+  if (lb.maxConnectionsPerSecond <= 0) return;
+
+  const outcome = routeNextRequest(state, lb);
+  if (outcome) {
+    followUpPlacement(state, outcome);
+  }
+  if (outcome?.kind === "processing" || outcome?.kind === "server-queued") {
+    armHedge(state, outcome.req);
+    if (outcome.req.hedgeAtMs !== undefined) {
+      scheduleEvent(state, { kind: "hedge", timeMs: outcome.req.hedgeAtMs });
+    }
+  }
+
+  lb.nextDispatchMs = state.timeMs + 1000 / lb.maxConnectionsPerSecond;
+  if (lb.queue.length) {
+    scheduleDispatch(state, lb);
+  }
+};
+
+const handleCompletion = (
+  state: SimulationState,
+  serverId: string,
+  requestId: number
+) => {
+  const server = state.servers.find((item) => item.id === serverId);
+  if (!server) return;
+  const req = server.inflight.find((item) => item.id === requestId);
+  if (!req) return;
+
+  server.inflight = server.inflight.filter((item) => item !== req);
+  let freed: ServerState[] = [];
+  if (req.isProbe) {
+    completeProbe(state, server, req);
+  } else {
+    freed = completeHedged(state, server, req);
+  }
+
+  for (const target of [server, ...freed]) {
+    for (const started of promoteServerQueue(state, target)) {
+      scheduleCompletion(state, target, started);
+    }
+  }
+  if (server.health === "DRAINING") {
+    settleDrains(state);
+  }
+
+  const lb = state.loadBalancers.find((item) => item.id === req.lbId);
+  if (lb && lb.isUp && lb.queue.length) {
+    scheduleDispatch(state, lb);
+  }
+};
+
+const handleHealthCheck = (state: SimulationState, lbId: string) => {
+  const lb = state.loadBalancers.find((item) => item.id === lbId);
+  if (!lb) return;
+  const { sent, started } = runHealthCheck(state, lb);
+  for (const probe of started) {
+    const server = state.servers.find((item) => item.id === probe.serverId);
+    if (server) scheduleCompletion(state, server, probe);
+  }
+  for (const probe of sent) {
+    scheduleEvent(state, {
+      kind: "probe-timeout",
+      lbId,
+      serverId: probe.serverId ?? "",
+      probeId: probe.id,
+      timeMs: state.timeMs + state.healthCheck.timeoutMs,
+    });
+  }
+  scheduleEvent(state, {
+    kind: "health-check",
+    lbId,
+    timeMs: state.timeMs + state.healthCheckIntervalMs,
+  });
+};
+
+const resumeDispatching = (state: SimulationState) => {
+  for (const lb of state.loadBalancers) {
+    if (lb.isUp && lb.queue.length) {
+      scheduleDispatch(state, lb);
+    }
+  }
+};
+
+const handleFault = (state: SimulationState, action: FaultAction) => {
+  applyFault(state, action);
+  if (action.kind === "server-health" && action.health === "DRAINING") {
+    const server = state.servers.find((item) => item.id === action.serverId);
+    if (server) {
+      scheduleEvent(state, {
+        kind: "fleet-change",
+        timeMs: drainDeadline(state, server),
+      });
+      settleDrains(state);
+    }
+  }
+  if (action.kind === "lb-status" && action.isUp) {
+    const lb = state.loadBalancers.find((item) => item.id === action.lbId);
+    if (lb && lb.queue.length) {
+      scheduleDispatch(state, lb);
+    }
+  }
+  if (action.kind === "zone-status" && action.isUp) {
+    resumeDispatching(state);
+  }
+};
+
+const handleHeartbeat = (state: SimulationState) => {
+  recordHeartbeats(state);
+  if (detectLbFailures(state)) {
+    scheduleEvent(state, {
+      kind: "election",
+      timeMs: state.timeMs + state.failover.electionDelayMs,
+    });
+  }
+  resumeDispatching(state);
+  scheduleEvent(state, {
+    kind: "heartbeat",
+    timeMs: state.timeMs + state.failover.heartbeatIntervalMs,
+  });
+};
+
+const handleTimeout = (state: SimulationState) => {
+  for (const server of expireTimedOut(state)) {
+    for (const started of promoteServerQueue(state, server)) {
+      scheduleCompletion(state, server, started);
+    }
+  }
+  settleDrains(state);
+  resumeDispatching(state);
+};
+
+// Launches and drains started here get a fleet-change event for when they
+// finish; new servers can take the LB backlog right away.
+const updateFleet = (state: SimulationState) => {
+  settleDrains(state);
+  for (const timeMs of runAutoscaler(state)) {
+    scheduleEvent(state, { kind: "fleet-change", timeMs });
+  }
+  resumeDispatching(state);
+};
+
+const handleAutoscale = (state: SimulationState) => {
+  updateFleet(state);
+  scheduleEvent(state, {
+    kind: "autoscale",
+    timeMs: state.timeMs + state.autoscaling.evaluationIntervalMs,
+  });
+};
+
+const handleHedge = (state: SimulationState) => {
+  for (const outcome of sendDueHedges(state)) {
+    followUpPlacement(state, outcome);
+  }
+};
+
+const handleElection = (state: SimulationState) => {
+  completeElection(state);
+  resumeDispatching(state);
+};
+
+const handleEvent = (state: SimulationState, event: SimEvent) => {
+  switch (event.kind) {
+    case "arrival":
+      handleArrival(state);
+      break;
+    case "dispatch":
+      handleDispatch(state, event.lbId);
+      break;
+    case "completion":
+      handleCompletion(state, event.serverId, event.requestId);
+      break;
+    case "health-check":
+      handleHealthCheck(state, event.lbId);
+      break;
+    case "fault":
+      handleFault(state, event.action);
+      break;
+    case "heartbeat":
+      handleHeartbeat(state);
+      break;
+    case "election":
+      handleElection(state);
+      break;
+    case "probe-timeout":
+      expireProbe(state, event.lbId, event.serverId, event.probeId);
+      break;
+    case "timeout":
+      handleTimeout(state);
+      break;
+    case "hedge":
+      handleHedge(state);
+      break;
+    case "autoscale":
+      handleAutoscale(state);
+      break;
+    case "fleet-change":
+      updateFleet(state);
+      break;
+    case "user-send": {
+      const req = sendUserRequest(state, event.userId);
+      if (req) admitArrival(state, req);
+      break;
+    }
+    case "retry":
+      admitArrival(
+        state,
+        createRequest(state, {
+          originalId: event.originalId,
+          attempt: event.attempt,
+          client: event.client,
+          attributes: event.attributes,
+        })
+      );
+      break;
+  }
+};
+
+// Processes every queued event up to prev.timeMs + dtMs. Unlike the tick
+// engine, each arrival, dispatch and completion happens at its own timestamp,
+// so latencies and queue waits are exact rather than rounded to the tick.
+export const stepEventSimulation = (
+  prev: SimulationState,
+  dtMs: number
+): SimulationState => {
+  const state = cloneState(prev);
+  const endMs = prev.timeMs + dtMs;
+
+  if (!state.eventQueue.some((event) => event.kind === "arrival")) {
+    primeEvents(state);
+  }
+
+  while (state.eventQueue.length && state.eventQueue[0].timeMs <= endMs) {
+    const event = state.eventQueue.shift();
+    if (!event) break;
+    state.timeMs = event.timeMs;
+    handleEvent(state, event);
+  }
+
+  state.timeMs = endMs;
+  recordMetrics(state);
+
+  return state;
+};
@@ -0,0 +1,178 @@
+import { failRequest } from "./engine";
+import { pushLog } from "./log";
+import type { LoadBalancerState, Request, SimulationState } from "./types";
+
+const logFailover = (
+  state: SimulationState,
+  message: string,
+  lbId?: string
+) => {
+  pushLog(state, {
+    id: 0,
+    timeMs: state.timeMs,
+    status: "lb-failover",
+    message,
+    lbId,
+  });
+};
+
+const isCandidate = (lb: LoadBalancerState) => lb.isUp && !lb.failureDetected;
+
+// Settles every request the failed LB was holding, according to the
+// configured orphan policy.
+const resolveOrphans = (
+  state: SimulationState,
+  failed: LoadBalancerState,
+  target: LoadBalancerState | null
+) => {
+  const queued = failed.queue;
+  failed.queue = [];
+  failed.activeConnections = 0;
+  const attached = state.servers
+    .flatMap((server) => [...server.inflight, ...server.queue])
+    .filter(
+      (req) =>
+        req.lbId === failed.id && !req.isProbe && req.status !== "failed"
+    );
+
+  const policy = state.failover.orphanPolicy;
+  const drop = (req: Request) => {
+    const reset = policy === "reset";
+    failRequest(
+      state,
+      req,
+      reset ? "connection reset by lb failover" : "lost with failed lb",
+      {
+        lbId: failed.id,
+        serverId: req.serverId,
+        logStatus: reset ? "lb-reset" : "lb-lost",
+      }
+    );
+  };
+
+  if (policy !== "migrated" || !target) {
+    [...queued, ...attached].forEach(drop);
+    return;
+  }
+
+  const migrate = (req: Request) => {
+    pushLog(state, {
+      id: req.id,
+      timeMs: state.timeMs,
+      status: "lb-migrated",
+      message: `Request ${req.id} migrated from ${failed.id} to ${target.id}`,
+      lbId: target.id,
+      serverId: req.serverId,
+    });
+  };
+
+  for (const req of queued) {
+    if (target.queue.length >= target.queueSize) {
+      drop(req);
+      continue;
+    }
+    target.queue.push(req);
+    migrate(req);
+  }
+  for (const req of attached) {
+    req.lbId = target.id;
+    target.activeConnections += 1;
+    migrate(req);
+  }
+};
+
+export const recordHeartbeats = (state: SimulationState) => {
+  for (const lb of state.loadBalancers) {
+    if (
+      lb.isUp &&
+      state.timeMs - lb.lastHeartbeatMs >= state.failover.heartbeatIntervalMs
+    ) {
+      lb.lastHeartbeatMs = state.timeMs;
+    }
+  }
+};
+
+// Flags LBs whose heartbeats stopped for longer than the detection timeout.
+// Returns true when an active-passive election has just been started.
+export const detectLbFailures = (state: SimulationState) => {
+  const { detectionTimeoutMs } = state.failover;
+
+  for (const lb of state.loadBalancers) {
+    if (lb.isUp && lb.failureDetected) {
+      lb.failureDetected = false;
+      logFailover(state, `${lb.id} heartbeats resumed`, lb.id);
+      continue;
+    }
+    const silentMs = state.timeMs - lb.lastHeartbeatMs;
+    if (lb.isUp || lb.failureDetected || silentMs < detectionTimeoutMs) {
+      continue;
+    }
+    lb.failureDetected = true;
+    logFailover(
+      state,
+      `${lb.id} missed heartbeats for ${Math.round(silentMs)}ms`,
+      lb.id
+    );
+    if (state.lbMode === "active-active") {
+      const target = state.loadBalancers.find(isCandidate) ?? null;
+      resolveOrphans(state, lb, target);
+    }
+  }
+
+  if (state.lbMode === "active-active" || state.electionStartedMs !== null) {
+    return false;
+  }
+
+  const leader = state.loadBalancers.find((lb) => lb.id === state.leaderLbId);
+  const needsLeader = leader
+    ? leader.failureDetected
+    : state.loadBalancers.some(isCandidate);
+  if (!needsLeader) return false;
+
+  state.electionStartedMs = state.timeMs;
+  logFailover(
+    state,
+    leader
+      ? `Election started to replace ${leader.id}`
+      : "Election started for a new leader",
+    leader?.id
+  );
+  return true;
+};
+
+export const completeElection = (state: SimulationState) => {
+  const previous = state.loadBalancers.find(
+    (lb) => lb.id === state.leaderLbId
+  );
+  const next = state.loadBalancers.find(isCandidate) ?? null;
+  const startedMs = state.electionStartedMs ?? state.timeMs;
+  state.electionStartedMs = null;
+  state.leaderLbId = next?.id ?? null;
+
+  logFailover(
+    state,
+    next
+      ? `${next.id} took over as leader after ${Math.round(
+          state.timeMs - startedMs
+        )}ms election`
+      : "No healthy load balancer to take over",
+    next?.id
+  );
+
+  if (previous && previous !== next && previous.failureDetected) {
+    resolveOrphans(state, previous, next);
+  }
+  return next;
+};
+
+// Tick-engine entry point: heartbeats, detection and election in one pass.
+export const runFailover = (state: SimulationState) => {
+  recordHeartbeats(state);
+  detectLbFailures(state);
+  if (
+    state.electionStartedMs !== null &&
+    state.timeMs - state.electionStartedMs >= state.failover.electionDelayMs
+  ) {
+    completeElection(state);
+  }
+};
@@ -0,0 +1,64 @@
+import { hashString } from "./hash";
+import type { FrontDoorId, LoadBalancerState } from "./types";
+
+type FrontDoorResult = {
+  lbId?: string;
+  index?: number;
+};
+
+export type FrontDoorPolicy = {
+  id: FrontDoorId;
+  name: string;
+  description: string;
+  select: (args: {
+    loadBalancers: LoadBalancerState[];
+    index: number;
+    key: string;
+    random: () => number;
+  }) => FrontDoorResult;
+};
+
+export const frontDoorPolicies: FrontDoorPolicy[] = [
+  {
+    id: "dns-round-robin",
+    name: "DNS Round Robin",
+    description: "Resolves clients to each healthy load balancer in turn.",
+    select: ({ loadBalancers, index }) => {
+      if (!loadBalancers.length) return {};
+      const lb = loadBalancers[index % loadBalancers.length];
+      return { lbId: lb.id, index: index + 1 };
+    },
+  },
+  {
+    id: "anycast-hash",
+    name: "Anycast by Hash",
+    description: "Hashes the client key so each client always lands on the same load balancer.",
+    select: ({ loadBalancers, key }) => {
+      if (!loadBalancers.length) return {};
+      const lb = loadBalancers[hashString(key) % loadBalancers.length];
+      return { lbId: lb.id };
+    },
+  },
+  {
+    id: "weighted",
+    name: "Weighted",
+    description: "Splits traffic across load balancers in proportion to their weight.",
+    select: ({ loadBalancers, random }) => {
+      if (!loadBalancers.length) return {};
+      const total = loadBalancers.reduce(
+        (sum, lb) => sum + Math.max(0, lb.weight),
+        0
+      );
+      if (total <= 0) return { lbId: loadBalancers[0].id };
+      let cursor = random() * total;
+      for (const lb of loadBalancers) {
+        cursor -= Math.max(0, lb.weight);
+        if (cursor < 0) return { lbId: lb.id };
+      }
+      return { lbId: loadBalancers[loadBalancers.length - 1].id };
+    },
+  },
+];
+
+export const getFrontDoorPolicy = (id: FrontDoorId) =>
+  frontDoorPolicies.find((policy) => policy.id === id) ?? frontDoorPolicies[0];
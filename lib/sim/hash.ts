@@ -0,0 +1,21 @@
+// 32-bit FNV-1a. Stable across runs, which keeps hash-based routing reproducible.
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// FNV-1a followed by the murmur3 finalizer. Short, similar inputs such as
+// "srv-1#0" and "srv-1#1" need the extra mixing to spread around a ring.
+export const hashKey = (value: string) => {
+  let hash = hashString(value);
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
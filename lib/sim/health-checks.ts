@@ -0,0 +1,247 @@
+import { startProcessing } from "./engine";
+import { pushLog } from "./log";
+import { serverLinkId, traverseLink } from "./network";
+import { markCold } from "./warm-up";
+import type {
+  LoadBalancerState,
+  ProbeState,
+  Request,
+  ServerState,
+  SimulationState,
+} from "./types";
+
+type ProbeResult = "ok" | "slow" | "failed";
+
+export const createProbeState = (server: ServerState): ProbeState => ({
+  healthy: server.health !== "DOWN",
+  observed: server.health === "DOWN" ? "DOWN" : "UP",
+  consecutiveSuccesses: 0,
+  consecutiveFailures: 0,
+  pendingProbeId: null,
+  pendingDeadlineMs: 0,
+  lastLatencyMs: null,
+  healthySinceMs: null,
+});
+
+const getProbe = (lb: LoadBalancerState, server: ServerState) => {
+  if (!lb.probes[server.id]) {
+    lb.probes[server.id] = createProbeState(server);
+  }
+  return lb.probes[server.id];
+};
+
+export const refreshHealthSnapshot = (
+  state: SimulationState,
+  lb: LoadBalancerState
+) => {
+  lb.healthSnapshot = Object.fromEntries(
+    state.servers.map((server) => [server.id, getProbe(lb, server).healthy])
+  );
+};
+
+const recordProbeResult = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  server: ServerState,
+  result: ProbeResult,
+  detail: string
+) => {
+  const { riseThreshold, fallThreshold } = state.healthCheck;
+  const probe = getProbe(lb, server);
+  probe.pendingProbeId = null;
+
+  if (result === "ok") {
+    probe.consecutiveSuccesses += 1;
+    probe.consecutiveFailures = 0;
+    if (!probe.healthy && probe.consecutiveSuccesses >= riseThreshold) {
+      probe.healthy = true;
+      probe.observed = "UP";
+      probe.healthySinceMs = state.timeMs;
+      pushLog(state, {
+        id: 0,
+        timeMs: state.timeMs,
+        status: "health-check",
+        message: `${lb.id} marks ${server.id} healthy after ${riseThreshold} passing probes`,
+        lbId: lb.id,
+        serverId: server.id,
+      });
+    }
+  } else {
+    probe.consecutiveFailures += 1;
+    probe.consecutiveSuccesses = 0;
+    if (probe.healthy && probe.consecutiveFailures >= fallThreshold) {
+      probe.healthy = false;
+      probe.observed = result === "slow" ? "SLOW" : "DOWN";
+      pushLog(state, {
+        id: 0,
+        timeMs: state.timeMs,
+        status: "health-check",
+        message: `${lb.id} marks ${server.id} ${probe.observed} after ${fallThreshold} failed probes (${detail})`,
+        lbId: lb.id,
+        serverId: server.id,
+      });
+    }
+  }
+
+  refreshHealthSnapshot(state, lb);
+};
+
+// Crashed servers come back on their own after recoveryDelayMs; the LB still
+// has to notice through its probes.
+const recoverServers = (state: SimulationState) => {
+  for (const server of state.servers) {
+    if (
+      server.health === "DOWN" &&
+      state.timeMs - server.lastHealthChangeMs >= state.recoveryDelayMs
+    ) {
+      server.health = "UP";
+      server.lastHealthChangeMs = state.timeMs;
+      markCold(state, server);
+    }
+  }
+};
+
+// Sends one probe per server when the LB's check interval has elapsed.
+// Probes occupy real server slots or queue positions like any request.
+export const runHealthCheck = (
+  state: SimulationState,
+  lb: LoadBalancerState
+) => {
+  const sent: Request[] = [];
+  const started: Request[] = [];
+  if (state.timeMs - lb.lastHealthCheckMs < state.healthCheckIntervalMs) {
+    return { sent, started };
+  }
+  lb.lastHealthCheckMs = state.timeMs;
+  recoverServers(state);
+  if (!lb.isUp) return { sent, started };
+
+  for (const server of state.servers) {
+    const probe = getProbe(lb, server);
+    if (probe.pendingProbeId !== null) continue;
+
+    if (server.health === "DOWN") {
+      recordProbeResult(state, lb, server, "failed", "connection refused");
+      continue;
+    }
+
+    const req: Request = {
+      id: -state.nextProbeId++,
+      isProbe: true,
+      arrivalTimeMs: state.timeMs,
+      status: "arrived",
+      lbId: lb.id,
+      serverId: server.id,
+    };
+
+    // A probe lost on the way never arrives; the LB waits out its timeout.
+    const outboundMs = traverseLink(
+      state,
+      serverLinkId(lb.id, server.id),
+      state.network.requestBytes
+    );
+    if (outboundMs === null) {
+      probe.pendingProbeId = req.id;
+      probe.pendingDeadlineMs = state.timeMs + state.healthCheck.timeoutMs;
+      sent.push(req);
+      continue;
+    }
+    req.networkMs = outboundMs;
+
+    if (server.inflight.length < server.maxConcurrentRequests) {
+      startProcessing(state, server, req);
+      started.push(req);
+    } else if (server.queue.length < server.serverQueueSize) {
+      req.status = "server-queued";
+      req.serverQueueEnterMs = state.timeMs;
+      server.queue.push(req);
+    } else {
+      recordProbeResult(state, lb, server, "failed", "server queue full");
+      continue;
+    }
+
+    probe.pendingProbeId = req.id;
+    probe.pendingDeadlineMs = state.timeMs + state.healthCheck.timeoutMs;
+    sent.push(req);
+  }
+
+  refreshHealthSnapshot(state, lb);
+  return { sent, started };
+};
+
+export const completeProbe = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+) => {
+  if (req.status === "failed") return;
+  req.status = "completed";
+  req.endTimeMs = state.timeMs;
+
+  const lb = state.loadBalancers.find((item) => item.id === req.lbId);
+  if (!lb || getProbe(lb, server).pendingProbeId !== req.id) return;
+
+  // Probe responses are small; one lost or arriving after the deadline is
+  // left for the timeout to count.
+  const returnMs = traverseLink(
+    state,
+    serverLinkId(lb.id, server.id),
+    state.network.requestBytes
+  );
+  if (returnMs === null) return;
+  req.networkMs = (req.networkMs ?? 0) + returnMs;
+  req.latencyMs = req.endTimeMs - req.arrivalTimeMs + req.networkMs;
+  if (
+    req.networkMs > 0 &&
+    req.arrivalTimeMs + req.latencyMs > getProbe(lb, server).pendingDeadlineMs
+  ) {
+    return;
+  }
+
+  const threshold = state.healthCheck.slowThresholdMs;
+  const latencyMs = req.latencyMs;
+  getProbe(lb, server).lastLatencyMs = latencyMs;
+  recordProbeResult(
+    state,
+    lb,
+    server,
+    threshold !== null && latencyMs > threshold ? "slow" : "ok",
+    `${Math.round(latencyMs)}ms`
+  );
+};
+
+export const expireProbe = (
+  state: SimulationState,
+  lbId: string,
+  serverId: string,
+  probeId: number
+) => {
+  const lb = state.loadBalancers.find((item) => item.id === lbId);
+  const server = state.servers.find((item) => item.id === serverId);
+  if (!lb || !server) return;
+  if (getProbe(lb, server).pendingProbeId !== probeId) return;
+
+  const req = [...server.inflight, ...server.queue].find(
+    (item) => item.id === probeId
+  );
+  if (req) {
+    req.status = "failed";
+    req.failureReason = "probe timed out";
+  }
+  recordProbeResult(state, lb, server, "failed", "timed out");
+};
+
+// Tick-engine counterpart of the event engine's probe-timeout events.
+export const expireProbes = (state: SimulationState) => {
+  for (const lb of state.loadBalancers) {
+    for (const server of state.servers) {
+      const probe = getProbe(lb, server);
+      if (
+        probe.pendingProbeId !== null &&
+        probe.pendingDeadlineMs <= state.timeMs
+      ) {
+        expireProbe(state, lb.id, server.id, probe.pendingProbeId);
+      }
+    }
+  }
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { failRequest } from "./engine";
+import { createInitialState } from "./simulator";
+import type { Request, SimulationState } from "./types";
+
+// A request on srv-1 hedged onto srv-2, both still running.
+const hedgedPair = () => {
+  const state = createInitialState();
+  state.retry = { ...state.retry, maxAttempts: 2 };
+  const original: Request = {
+    id: 1,
+    hedgeId: 2,
+    arrivalTimeMs: 0,
+    serverId: "srv-1",
+    status: "processing",
+  };
+  const hedge: Request = {
+    id: 2,
+    hedgeOf: 1,
+    arrivalTimeMs: 0,
+    serverId: "srv-2",
+    status: "processing",
+  };
+  state.servers[0].inflight.push(original);
+  state.servers[1].inflight.push(hedge);
+  return { state, original, hedge };
+};
+
+const retries = (state: SimulationState) =>
+  state.eventQueue.filter((event) => event.kind === "retry");
+
+describe("hedge pairs", () => {
+  it("settle once, when the hedge copy fails last", () => {
+    const { state, original, hedge } = hedgedPair();
+    expect(failRequest(state, original, "server error (500)")).toBe(false);
+    expect(state.totals.failed).toBe(0);
+    expect(retries(state)).toHaveLength(0);
+
+    expect(failRequest(state, hedge, "server error (500)")).toBe(true);
+    expect(state.totals.failed).toBe(1);
+    expect(retries(state)).toMatchObject([
+      { kind: "retry", originalId: 1, attempt: 2 },
+    ]);
+  });
+
+  it("settle once, when the original fails last", () => {
+    const { state, original, hedge } = hedgedPair();
+    expect(failRequest(state, hedge, "server error (500)")).toBe(false);
+    expect(failRequest(state, original, "server error (500)")).toBe(true);
+    expect(state.totals.failed).toBe(1);
+    expect(retries(state)).toMatchObject([
+      { kind: "retry", originalId: 1, attempt: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  breakerAllows,
+  classifyLatency,
+  recordBreakerOutcome,
+} from "./circuit-breaker";
+import {
+  completeRequest,
+  isServerAvailable,
+  p95,
+  placeRequest,
+  type RouteOutcome,
+} from "./engine";
+import { pushLog } from "./log";
+import type { Request, ServerState, SimulationState } from "./types";
+
+const hedgeDelayMs = (state: SimulationState) => {
+  const { delay } = state.hedging;
+  if (delay.kind === "fixed") return delay.delayMs;
+  if (delay.kind === "p95" && state.recentLatencies.length) {
+    return p95(state.recentLatencies);
+  }
+  return null;
+};
+
+// Called when a request is handed to a server; hedges are never hedged.
+export const armHedge = (state: SimulationState, req: Request) => {
+  if (req.isProbe || req.hedgeOf !== undefined) return;
+  const delayMs = hedgeDelayMs(state);
+  if (delayMs === null) return;
+  req.hedgeAtMs = state.timeMs + delayMs;
+};
+
+const locate = (state: SimulationState, id: number) => {
+  for (const server of state.servers) {
+    const req = [...server.inflight, ...server.queue].find(
+      (item) => item.id === id
+    );
+    if (req) return { server, req };
+  }
+  return null;
+};
+
+// Duplicates every request still unanswered at its hedge time onto another
+// server. Hedges skip the LB queue and keep the original arrival time, so
+// their latency is what the client sees.
+export const sendDueHedges = (state: SimulationState) => {
+  const outcomes: RouteOutcome[] = [];
+  for (const server of state.servers) {
+    for (const req of [...server.inflight, ...server.queue]) {
+      if (
+        req.hedgeAtMs === undefined ||
+        req.hedgeAtMs > state.timeMs ||
+        req.status === "failed"
+      ) {
+        continue;
+      }
+      req.hedgeAtMs = undefined;
+      const lb = state.loadBalancers.find((item) => item.id === req.lbId);
+      if (!lb || !lb.isUp) continue;
+      const hasAlternative = state.servers.some(
+        (other) =>
+          other !== server &&
+          lb.healthSnapshot[other.id] &&
+          isServerAvailable(other) &&
+          breakerAllows(state, lb, other.id)
+      );
+      if (!hasAlternative) continue;
+
+      const hedge: Request = {
+        id: state.nextRequestId++,
+        hedgeOf: req.id,
+        originalId: req.originalId,
+        attempt: req.attempt,
+        client: req.client,
+        attributes: req.attributes,
+        uplinkMs: req.uplinkMs,
+        arrivalTimeMs: req.arrivalTimeMs,
+        deadlineMs: req.deadlineMs,
+        lbQueueEnterMs: state.timeMs,
+        lbQueueExitMs: state.timeMs,
+        lbQueueWaitMs: 0,
+        status: "arrived",
+      };
+      req.hedgeId = hedge.id;
+      state.totals.hedges += 1;
+      pushLog(state, {
+        id: req.id,
+        timeMs: state.timeMs,
+        status: "hedge",
+        message: `Request ${req.id} hedged as ${hedge.id} after ${Math.round(
+          state.timeMs - (req.lbQueueExitMs ?? req.arrivalTimeMs)
+        )}ms on ${server.id}`,
+        lbId: lb.id,
+        serverId: server.id,
+      });
+      outcomes.push(placeRequest(state, lb, hedge, [server.id]));
+    }
+  }
+  return outcomes;
+};
+
+const releaseLoser = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request,
+  workMs: number
+) => {
+  const lb = state.loadBalancers.find((item) => item.id === req.lbId);
+  if (lb) {
+    lb.activeConnections = Math.max(0, lb.activeConnections - 1);
+  }
+  state.totals.hedgeExtraWorkMs += workMs;
+  req.status = "completed";
+  req.endTimeMs = state.timeMs;
+  pushLog(state, {
+    id: req.id,
+    timeMs: state.timeMs,
+    status: "hedge",
+    message: `Request ${req.id} lost the hedge race on ${server.id}`,
+    lbId: req.lbId,
+    serverId: server.id,
+  });
+};
+
+// Completes a request and settles its hedge pair. The first response wins;
+// a loser that finishes later only frees its slot, and with cancelLoser the
+// slower copy is withdrawn as soon as the winner returns. Returns servers
+// whose slots were freed by a cancellation.
+export const completeHedged = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request
+): ServerState[] => {
+  if (req.hedgeLost) {
+    server.totalProcessed += 1;
+    recordBreakerOutcome(
+      state,
+      req.lbId,
+      server.id,
+      req,
+      classifyLatency(
+        state,
+        state.timeMs - (req.lbQueueExitMs ?? req.arrivalTimeMs)
+      )
+    );
+    releaseLoser(state, server, req, req.processingTimeMs ?? 0);
+    return [];
+  }
+
+  const peerId = req.hedgeOf ?? req.hedgeId;
+  completeRequest(state, server, req);
+  if (peerId === undefined || req.status !== "completed") return [];
+  if (req.hedgeOf !== undefined) {
+    state.totals.hedgeWins += 1;
+  }
+
+  const peer = locate(state, peerId);
+  if (!peer || peer.req.status === "failed") return [];
+  peer.req.hedgeLost = true;
+  if (!state.hedging.cancelLoser) return [];
+
+  const { server: peerServer, req: loser } = peer;
+  const started = loser.status === "processing";
+  peerServer.queue = peerServer.queue.filter((item) => item !== loser);
+  peerServer.inflight = peerServer.inflight.filter((item) => item !== loser);
+  releaseLoser(
+    state,
+    peerServer,
+    loser,
+    started ? state.timeMs - (loser.startProcessingMs ?? state.timeMs) : 0
+  );
+  return started ? [peerServer] : [];
+};
@@ -1,5 +1,16 @@
 export * from "./types";
 export * from "./algorithms";
+export * from "./consistent-hashing";
+export * from "./front-door";
 export * from "./workloads";
+export * from "./random";
 export * from "./simulator";
+export * from "./warm-up";
+export * from "./draining";
+export * from "./network";
+export * from "./chaos";
+export * from "./traces";
+export * from "./closed-loop";
+export * from "./request-classes";
+export * from "./event-engine";
 export * from "./scenarios";
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { buildStateFromScenario, scenarios, type Scenario } from "./scenarios";
+import { stepSimulation } from "./simulator";
+import type { EngineId, Request, SimulationState } from "./types";
+
+const engines: EngineId[] = ["tick", "event"];
+
+const run = (
+  scenario: Scenario,
+  engine: EngineId,
+  seconds: number,
+  tweak: (state: SimulationState) => SimulationState = (state) => state
+) => {
+  let state = tweak(buildStateFromScenario(scenario, { engine }));
+  for (let i = 0; i < seconds; i += 1) {
+    state = stepSimulation(state, state.tickMs);
+  }
+  return state;
+};
+
+const scenario = (id: string) => {
+  const found = scenarios.find((item) => item.id === id);
+  if (!found) throw new Error(`no scenario ${id}`);
+  return found;
+};
+
+// Requests still waiting or running somewhere. A hedge copy that already lost
+// or gave up is not.
+const pending = (state: SimulationState) => {
+  const requests: Request[] = [
+    ...state.loadBalancers.flatMap((lb) => lb.queue),
+    ...state.servers.flatMap((server) => [...server.inflight, ...server.queue]),
+  ];
+  return requests.filter(
+    (req) =>
+      !req.isProbe &&
+      !req.hedgeLost &&
+      req.status !== "failed" &&
+      req.status !== "completed"
+  );
+};
+
+// Every attempt a client made ends exactly once: completed, failed, turned
+// away at a full LB queue, or still pending. A hedge pair is one attempt.
+const expectConservation = (state: SimulationState) => {
+  const { totals } = state;
+  const attempts = state.nextRequestId - 1 - totals.hedges;
+  const open = new Set(pending(state).map((req) => req.hedgeOf ?? req.id));
+  expect(totals.completed + totals.failed + totals.droppedLb + open.size).toBe(
+    attempts
+  );
+};
+
+describe("conservation", () => {
+  for (const engine of engines) {
+    it.each(scenarios.map((item) => item.id))(`%s on the ${engine} engine`, (id) => {
+      expectConservation(run(scenario(id), engine, 40));
+    });
+  }
+
+  it.each(engines)("holds for hedge pairs on erroring servers (%s)", (engine) => {
+    for (const cancelLoser of [true, false]) {
+      const state = run(scenario("rr-slow-server-hedged"), engine, 60, (state) => ({
+        ...state,
+        hedging: { ...state.hedging, cancelLoser },
+        servers: state.servers.map((server) => ({ ...server, errorRate: 0.2 })),
+      }));
+      if (engine === "event") expect(state.totals.hedges).toBeGreaterThan(0);
+      expectConservation(state);
+    }
+  });
+});
+
+describe("closed-loop users", () => {
+  const withRetriesAndHedges = (state: SimulationState): SimulationState => ({
+    ...state,
+    retry: { ...state.retry, maxAttempts: 2 },
+    hedging: { delay: { kind: "fixed", delayMs: 150 }, cancelLoser: false },
+    servers: state.servers.map((server) => ({ ...server, errorRate: 0.2 })),
+  });
+
+  it.each(engines)("hear back once per request (%s)", (engine) => {
+    const state = run(scenario("closed-loop-users"), engine, 40, withRetriesAndHedges);
+    const { totals } = state;
+    const users = state.users;
+    const completed = users.reduce((sum, user) => sum + user.completed, 0);
+    const failed = users.reduce((sum, user) => sum + user.failed, 0);
+    expect(completed).toBe(totals.completed);
+    // Failures that were retried are not the user's answer.
+    expect(failed).toBe(totals.failed + totals.droppedLb - totals.retries);
+
+    // A waiting user has exactly one request pending or one retry queued.
+    const open = new Set(
+      pending(state).map((req) => req.originalId ?? req.hedgeOf ?? req.id)
+    );
+    const retrying = state.eventQueue.filter((event) => event.kind === "retry");
+    const waiting = users.filter((user) => user.waitingOn !== null);
+    expect(open.size + retrying.length).toBe(waiting.length);
+    expectConservation(state);
+  });
+});
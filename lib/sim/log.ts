@@ -0,0 +1,10 @@
+import type { LogEntry, SimulationState } from "./types";
+
+const LOG_LIMIT = 260;
+
+export const pushLog = (state: SimulationState, entry: LogEntry) => {
+  state.log.push(entry);
+  if (state.log.length > LOG_LIMIT) {
+    state.log.splice(0, state.log.length - LOG_LIMIT);
+  }
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { buildStateFromScenario, scenarios } from "./scenarios";
+import { stepSimulation } from "./simulator";
+import type { EngineId, SimulationState } from "./types";
+
+// The lossy-link scenario with slow links and a one second client timeout.
+const run = (engine: EngineId, latencyMs: number) => {
+  const scenario = scenarios.find((item) => item.id === "lossy-link");
+  if (!scenario) throw new Error("no lossy-link scenario");
+  let state: SimulationState = buildStateFromScenario(scenario, { engine });
+  state = {
+    ...state,
+    timeouts: { ...state.timeouts, clientTimeoutMs: 1000 },
+    network: {
+      ...state.network,
+      defaultLink: { ...state.network.defaultLink, latencyMs },
+    },
+  };
+  for (let i = 0; i < 30; i += 1) {
+    state = stepSimulation(state, state.tickMs);
+  }
+  return state;
+};
+
+describe("link transit and deadlines", () => {
+  it.each<EngineId>(["tick", "event"])(
+    "no response reaches the client after its deadline (%s)",
+    (engine) => {
+      const state = run(engine, 200);
+      expect(state.totals.completed).toBeGreaterThan(0);
+      expect(state.totals.timedOut).toBeGreaterThan(0);
+      expect(Math.max(...state.recentLatencies)).toBeLessThanOrEqual(1000);
+    }
+  );
+
+  it.each<EngineId>(["tick", "event"])(
+    "a round trip longer than the timeout never completes (%s)",
+    (engine) => {
+      const state = run(engine, 800);
+      expect(state.totals.completed).toBe(0);
+      expect(state.totals.timedOut).toBeGreaterThan(0);
+    }
+  );
+});
@@ -0,0 +1,65 @@
+import { nextRandom } from "./random";
+import type { LinkConfig, Request, SimulationState } from "./types";
+
+// Transit is accounted, not simulated: requests still reach the LB and the
+// server at once, and the time they would have spent on the wire is added
+// to their latency. Deadlines come due that much earlier on the simulation
+// clock, and a response that would land after the client's deadline fails.
+
+export const clientLinkId = (lbId: string) => `client-${lbId}`;
+
+export const serverLinkId = (lbId: string, serverId: string) =>
+  `${lbId}-${serverId}`;
+
+export const getLink = (state: SimulationState, linkId: string): LinkConfig => ({
+  ...state.network.defaultLink,
+  ...state.network.links[linkId],
+});
+
+export const isLinkDegraded = (state: SimulationState, linkId: string) =>
+  Object.keys(state.network.links[linkId] ?? {}).length > 0;
+
+// Latency, jitter and serialization for one transmission. Randomness is only
+// drawn when the link has jitter, so quiet links leave runs unchanged.
+const transmitMs = (
+  state: SimulationState,
+  link: LinkConfig,
+  bytes: number
+) => {
+  const jitterMs = link.jitterMs > 0 ? nextRandom(state) * link.jitterMs : 0;
+  const serializationMs =
+    link.bandwidthMbps && link.bandwidthMbps > 0
+      ? (bytes * 8) / (link.bandwidthMbps * 1000)
+      : 0;
+  return link.latencyMs + jitterMs + serializationMs;
+};
+
+// One-way trip over a link, including a retransmit timeout for every lost
+// attempt. Returns null when the last retransmit is lost too.
+export const traverseLink = (
+  state: SimulationState,
+  linkId: string,
+  bytes: number
+) => {
+  const link = getLink(state, linkId);
+  const { retransmitTimeoutMs, maxRetransmits } = state.network;
+  let waitedMs = 0;
+  for (let attempt = 0; attempt <= maxRetransmits; attempt += 1) {
+    const lost =
+      link.lossRate >= 1 ||
+      (link.lossRate > 0 && nextRandom(state) < link.lossRate);
+    if (!lost) return waitedMs + transmitMs(state, link, bytes);
+    waitedMs += retransmitTimeoutMs;
+  }
+  return null;
+};
+
+// The client's deadline on the simulation clock, brought forward by the
+// transit the request has made so far.
+export const clientDeadlineMs = (req: Request) =>
+  req.deadlineMs === undefined
+    ? undefined
+    : req.deadlineMs - (req.networkMs ?? req.uplinkMs ?? 0);
+
+export const lostOnLink = (state: SimulationState, linkId: string) =>
+  `lost on ${linkId} after ${state.network.maxRetransmits} retransmits`;
@@ -0,0 +1,35 @@
+import type { ServerState } from "./types";
+
+// Finagle's defaults: estimates decay with a 10s time constant, and a
+// server with no estimate but pending work looks worse than any real one.
+const DECAY_MS = 10000;
+const PENALTY_MS = 1e5;
+
+export const peakEwmaEstimate = (server: ServerState, timeMs: number) =>
+  server.peakEwmaMs *
+  Math.exp(-Math.max(0, timeMs - server.peakEwmaUpdatedMs) / DECAY_MS);
+
+// A sample above the estimate replaces it outright; lower samples are
+// blended in with a weight that grows with the time since the last one.
+export const observePeakEwma = (
+  server: ServerState,
+  rttMs: number,
+  timeMs: number
+) => {
+  const weight = Math.exp(
+    -Math.max(0, timeMs - server.peakEwmaUpdatedMs) / DECAY_MS
+  );
+  server.peakEwmaMs =
+    rttMs > server.peakEwmaMs
+      ? rttMs
+      : server.peakEwmaMs * weight + rttMs * (1 - weight);
+  server.peakEwmaUpdatedMs = timeMs;
+};
+
+// Estimate scaled by outstanding work, including the request being placed.
+export const peakEwmaCost = (server: ServerState, timeMs: number) => {
+  const pending = server.inflight.length + server.queue.length;
+  const estimate = peakEwmaEstimate(server, timeMs);
+  if (estimate === 0 && pending > 0) return PENALTY_MS + pending;
+  return estimate * (pending + 1);
+};
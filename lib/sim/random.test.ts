@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { nextRandom, seedToRngState } from "./random";
+import { buildStateFromScenario, scenarios } from "./scenarios";
+import { stepSimulation } from "./simulator";
+import type { EngineId } from "./types";
+
+const variance = scenarios.find((item) => item.id === "rr-variance-tail");
+
+const run = (engine: EngineId, seed?: number) => {
+  if (!variance) throw new Error("no rr-variance-tail scenario");
+  let state = buildStateFromScenario(variance, { engine, seed });
+  for (let i = 0; i < 30; i += 1) {
+    state = stepSimulation(state, state.tickMs);
+  }
+  return state;
+};
+
+describe("seeded runs", () => {
+  it("draws the same sequence from the same seed", () => {
+    const draws = (seed: number) => {
+      const state = { rngState: seedToRngState(seed) };
+      return Array.from({ length: 5 }, () => nextRandom(state));
+    };
+    expect(draws(7)).toEqual(draws(7));
+    expect(draws(7)).not.toEqual(draws(8));
+  });
+
+  it.each<EngineId>(["tick", "event"])(
+    "replay the same run from the same seed (%s)",
+    (engine) => {
+      const first = run(engine);
+      const second = run(engine);
+      expect(second.totals).toEqual(first.totals);
+      expect(second.recentLatencies).toEqual(first.recentLatencies);
+      expect(second.servers.map((server) => server.totalProcessed)).toEqual(
+        first.servers.map((server) => server.totalProcessed)
+      );
+      expect(run(engine, 43).recentLatencies).not.toEqual(first.recentLatencies);
+    }
+  );
+});
@@ -0,0 +1,72 @@
+import type { ServiceTimeDistribution, SimulationState } from "./types";
+
+export const DEFAULT_SEED = 1337;
+
+const POISSON_CHUNK = 30;
+
+// mulberry32: small, fast and good enough for teaching simulations. The whole
+// generator state is a single 32-bit integer so it survives state cloning.
+export const nextRandom = (state: Pick<SimulationState, "rngState">) => {
+  state.rngState = (state.rngState + 0x6d2b79f5) | 0;
+  let t = state.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const sampleStandardNormal = (state: Pick<SimulationState, "rngState">) => {
+  const u1 = Math.max(Number.EPSILON, nextRandom(state));
+  const u2 = nextRandom(state);
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+export const sampleExponential = (
+  state: Pick<SimulationState, "rngState">,
+  mean: number
+) => -mean * Math.log(1 - nextRandom(state));
+
+export const samplePoisson = (
+  state: Pick<SimulationState, "rngState">,
+  lambda: number
+) => {
+  let remaining = Math.max(0, lambda);
+  let count = 0;
+  // Knuth's method underflows for large lambda, so split it into chunks;
+  // the sum of independent Poisson variables is still Poisson.
+  while (remaining > 0) {
+    const chunk = Math.min(remaining, POISSON_CHUNK);
+    remaining -= chunk;
+    const limit = Math.exp(-chunk);
+    let product = nextRandom(state);
+    while (product > limit) {
+      count += 1;
+      product *= nextRandom(state);
+    }
+  }
+  return count;
+};
+
+export const sampleServiceTime = (
+  state: Pick<SimulationState, "rngState">,
+  distribution: ServiceTimeDistribution,
+  meanMs: number
+) => {
+  switch (distribution.kind) {
+    case "exponential":
+      return sampleExponential(state, meanMs);
+    case "lognormal": {
+      const sigma = distribution.sigma;
+      const mu = Math.log(meanMs) - (sigma * sigma) / 2;
+      return Math.exp(mu + sigma * sampleStandardNormal(state));
+    }
+    case "pareto": {
+      const alpha = Math.max(1.01, distribution.alpha);
+      const scale = (meanMs * (alpha - 1)) / alpha;
+      return scale / (1 - nextRandom(state)) ** (1 / alpha);
+    }
+    default:
+      return meanMs;
+  }
+};
+
+export const seedToRngState = (seed: number) => seed | 0;
@@ -0,0 +1,42 @@
+import { avg, p95 } from "./engine";
+import type { SimulationState } from "./types";
+
+// Per-class outcomes and recent latencies, in the order of the mix, then any
+// class only a replayed trace has named. Mix shares are normalised so they
+// read as fractions of the traffic; a traced class's share is its part of
+// the attempts so far.
+export const classReport = (state: SimulationState) => {
+  const totalShare = state.requestClasses.reduce(
+    (sum, item) => sum + Math.max(0, item.share),
+    0
+  );
+  const attempts = Object.values(state.classStats).reduce(
+    (sum, stats) => sum + stats.completed + stats.failed,
+    0
+  );
+  const mix = state.requestClasses.map((item) => ({
+    id: item.id,
+    name: item.name,
+    share: totalShare > 0 ? Math.max(0, item.share) / totalShare : 0,
+    serviceMultiplier: item.serviceMultiplier,
+  }));
+  const traced = Object.entries(state.classStats)
+    .filter(([id]) => !mix.some((item) => item.id === id))
+    .map(([id, stats]) => ({
+      id,
+      name: id,
+      share: attempts > 0 ? (stats.completed + stats.failed) / attempts : 0,
+      serviceMultiplier: 1,
+    }));
+  return [...mix, ...traced].map((item) => {
+    const stats = state.classStats[item.id];
+    const latencies = stats?.recentLatencies ?? [];
+    return {
+      ...item,
+      completed: stats?.completed ?? 0,
+      failed: stats?.failed ?? 0,
+      avgLatencyMs: avg(latencies),
+      p95LatencyMs: p95(latencies),
+    };
+  });
+};
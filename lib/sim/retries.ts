@@ -0,0 +1,89 @@
+import { pushLog } from "./log";
+import { nextRandom } from "./random";
+import type {
+  Request,
+  RetryBudget,
+  RetryBudgetState,
+  SimulationState,
+} from "./types";
+
+// Ratio budgets let deposits fade over roughly this window, so a quiet
+// period cannot bank an unlimited number of retries for the next storm.
+const RATIO_WINDOW_MS = 10000;
+
+export const createRetryBudgetState = (
+  budget: RetryBudget,
+  timeMs = 0
+): RetryBudgetState => ({
+  tokens: budget.kind === "token-bucket" ? budget.capacity : 0,
+  updatedMs: timeMs,
+});
+
+const refillBudget = (state: SimulationState) => {
+  const { budget } = state.retry;
+  const bucket = state.retryBudget;
+  const elapsedMs = state.timeMs - bucket.updatedMs;
+  bucket.updatedMs = state.timeMs;
+
+  if (budget.kind === "token-bucket") {
+    bucket.tokens = Math.min(
+      budget.capacity,
+      bucket.tokens + (budget.refillPerSecond * elapsedMs) / 1000
+    );
+  } else if (budget.kind === "ratio") {
+    bucket.tokens =
+      bucket.tokens * Math.exp(-elapsedMs / RATIO_WINDOW_MS) +
+      (budget.minPerSecond * elapsedMs) / 1000;
+  }
+};
+
+// Every first attempt earns a fraction of a retry under a ratio budget.
+export const depositRetryBudget = (state: SimulationState) => {
+  if (state.retry.budget.kind !== "ratio") return;
+  refillBudget(state);
+  state.retryBudget.tokens += state.retry.budget.ratio;
+};
+
+const withdrawRetryBudget = (state: SimulationState) => {
+  if (state.retry.budget.kind === "unlimited") return true;
+  refillBudget(state);
+  if (state.retryBudget.tokens < 1) return false;
+  state.retryBudget.tokens -= 1;
+  return true;
+};
+
+// Exponential backoff for the retry that follows the given attempt.
+export const retryBackoffMs = (state: SimulationState, attempt: number) => {
+  const { baseBackoffMs, maxBackoffMs, multiplier, jitter } = state.retry;
+  const capped = Math.min(
+    maxBackoffMs,
+    baseBackoffMs * multiplier ** (attempt - 1)
+  );
+  if (jitter === "full") return capped * nextRandom(state);
+  if (jitter === "equal") return capped / 2 + (capped / 2) * nextRandom(state);
+  return capped;
+};
+
+// Returns the delay before the client tries again, or null when it gives up.
+// A hedge pair is one attempt: whichever copy fails last decides, and a hedge
+// copy carries the attempt number of the request it duplicates.
+export const planRetry = (state: SimulationState, req: Request) => {
+  if (req.isProbe) return null;
+  const attempt = req.attempt ?? 1;
+  if (attempt >= state.retry.maxAttempts) return null;
+
+  if (!withdrawRetryBudget(state)) {
+    state.totals.retriesDenied += 1;
+    pushLog(state, {
+      id: req.id,
+      timeMs: state.timeMs,
+      status: "retry",
+      message: `Request ${
+        req.originalId ?? req.hedgeOf ?? req.id
+      } not retried: retry budget exhausted`,
+      lbId: req.lbId,
+    });
+    return null;
+  }
+  return retryBackoffMs(state, attempt);
+};
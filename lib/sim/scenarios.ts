@@ -1,39 +1,83 @@
 import type {
+  AffinityConfig,
   AlgorithmId,
+  ArrivalProcess,
+  AutoscalerConfig,
+  ChaosEvent,
+  CircuitBreakerConfig,
+  ClientPopulation,
+  ClosedLoopConfig,
+  ColdCacheConfig,
+  DynamicWeightConfig,
+  EngineId,
+  FailoverConfig,
+  FrontDoorId,
+  HealthCheckConfig,
+  HedgeConfig,
+  LbMode,
   LoadBalancerState,
+  NetworkConfig,
+  RequestClass,
+  RetryConfig,
   ServerState,
+  ServiceTimeDistribution,
   SimulationState,
+  SlowStartConfig,
+  TimeoutConfig,
   WorkloadId,
+  WorkloadShape,
+  ZoneConfig,
 } from "./types";
 import { createInitialState } from "./simulator";
+import { DEFAULT_SEED } from "./random";
+import { createProbeState } from "./health-checks";
+import { createBreakerState } from "./circuit-breaker";
+import { createRetryBudgetState } from "./retries";
+import { createAutoscalerState } from "./autoscaler";
+import { getWorkload } from "./workloads";
+import { scheduleChaos } from "./chaos";
+import { createUsers, scheduleUsers } from "./closed-loop";
+import {
+  loadTrace,
+  type ReplayOptions,
+  type TraceParseOptions,
+} from "./traces";
 
 type ServerConfig = Pick<
   ServerState,
   | "id"
   | "name"
+  | "zone"
   | "health"
   | "baseLatencyMs"
   | "slowMultiplier"
   | "weight"
   | "maxConcurrentRequests"
   | "serverQueueSize"
->;
+> &
+  Partial<Pick<ServerState, "errorRate">>;
 
 type LbConfig = Pick<
   LoadBalancerState,
   | "id"
   | "name"
+  | "zone"
   | "isUp"
   | "maxConnectionsPerSecond"
   | "maxConcurrentConnections"
   | "queueSize"
   | "routingAlgorithm"
->;
+> &
+  Partial<Pick<LoadBalancerState, "weight">>;
 
 export type Scenario = {
   id: string;
   algorithmId: AlgorithmId;
   workloadId: WorkloadId;
+  // Overrides the catalog workload's shape; its clients still apply.
+  workload?: WorkloadShape;
+  // Overrides the catalog workload's request mix.
+  requestClasses?: RequestClass[];
   name: string;
   summary: string;
   setup: string[];
@@ -42,6 +86,33 @@ export type Scenario = {
   narration: NarrationStep[];
   servers: ServerConfig[];
   loadBalancers: LbConfig[];
+  seed?: number;
+  engine?: EngineId;
+  lbMode?: LbMode;
+  frontDoorPolicy?: FrontDoorId;
+  failover?: Partial<FailoverConfig>;
+  healthCheck?: Partial<HealthCheckConfig>;
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  retry?: Partial<RetryConfig>;
+  timeouts?: Partial<TimeoutConfig>;
+  hedging?: HedgeConfig;
+  clients?: Partial<ClientPopulation>;
+  affinity?: Partial<AffinityConfig>;
+  jsqChoices?: number;
+  dynamicWeights?: Partial<DynamicWeightConfig>;
+  slowStart?: Partial<SlowStartConfig>;
+  coldCache?: Partial<ColdCacheConfig>;
+  autoscaling?: Partial<AutoscalerConfig>;
+  drainTimeoutMs?: number;
+  zones?: Partial<ZoneConfig>;
+  network?: Partial<NetworkConfig>;
+  chaos?: ChaosEvent[];
+  // A recorded access log replayed instead of the workload's shape.
+  trace?: { source: string } & TraceParseOptions & ReplayOptions;
+  // Users that wait for each answer, in place of the workload's shape.
+  closedLoop?: ClosedLoopConfig;
+  arrivalProcess?: ArrivalProcess;
+  serviceTime?: ServiceTimeDistribution;
 };
 
 export type NarrationTarget =
@@ -60,11 +131,139 @@ export type NarrationStep = {
   lbId?: string;
 };
 
+// Ten seconds of a small API's access log, with two rows a log shipper
+// mangled: an unreadable timestamp and a negative duration.
+const SAMPLE_ACCESS_LOG = `timestamp,client_ip,path,duration_ms,bytes
+1718000000.039,203.0.113.4,/api/items,80,6389
+1718000000.127,203.0.113.4,/static/app.js,5,120000
+1718000000.181,203.0.113.4,/api/items,76,6632
+1718000000.206,203.0.113.4,/api/search,728,22998
+1718000000.231,203.0.113.4,/api/items,53,6429
+1718000000.268,203.0.113.4,/api/search,112,30935
+1718000000.278,203.0.113.9,/api/search,291,26266
+1718000000.334,203.0.113.4,/api/items,80,4455
+1718000000.354,203.0.113.31,/api/search,132,26223
+1718000000.484,203.0.113.88,/api/items,62,3245
+1718000000.539,203.0.113.4,/static/app.js,4,120000
+1718000000.695,203.0.113.9,/api/search,190,26275
+1718000000.756,203.0.113.4,/api/search,584,31762
+1718000000.887,203.0.113.4,/api/items,84,5650
+1718000000.936,203.0.113.9,/api/search,98,15506
+1718000001.004,203.0.113.4,/api/items,49,5259
+1718000001.209,203.0.113.23,/api/items,70,3121
+1718000001.409,203.0.113.199,/api/items,69,5116
+1718000001.425,203.0.113.23,/api/items,62,5972
+1718000001.445,203.0.113.9,/api/items,50,6995
+1718000001.751,203.0.113.17,/api/search,255,32157
+1718000001.812,203.0.113.4,/api/export,1409,506632
+1718000001.913,203.0.113.4,/api/items,56,3329
+1718000002.004,203.0.113.9,/api/items,79,4978
+1718000002.012,203.0.113.9,/api/items,62,4845
+1718000002.076,203.0.113.4,/api/items,56,5935
+1718000002.085,203.0.113.4,/api/items,66,7669
+1718000002.087,203.0.113.4,/static/app.js,8,120000
+1718000002.166,203.0.113.9,/api/items,144,2745
+1718000002.196,203.0.113.9,/api/items,80,4700
+1718000002.291,203.0.113.23,/api/search,340,17844
+1718000002.426,203.0.113.199,/api/items,75,2237
+1718000002.582,203.0.113.4,/api/items,49,4820
+1718000002.858,203.0.113.4,/static/app.js,12,120000
+1718000002.883,203.0.113.199,/api/items,61,7112
+1718000002.977,203.0.113.4,/api/items,102,7268
+1718000003.085,203.0.113.17,/static/app.js,10,120000
+1718000003.150,203.0.113.4,/api/items,92,7913
+1718000003.202,203.0.113.4,/static/app.js,10,120000
+1718000004.x12,203.0.113.9,/api/items,71,4096
+1718000003.215,203.0.113.4,/api/items,62,3073
+1718000003.376,203.0.113.4,/api/search,246,20682
+1718000003.430,203.0.113.9,/api/items,102,5753
+1718000003.599,203.0.113.4,/api/items,59,6182
+1718000003.657,203.0.113.4,/api/items,54,7940
+1718000003.663,203.0.113.4,/api/search,260,35444
+1718000003.745,203.0.113.4,/api/items,45,6159
+1718000003.748,203.0.113.9,/api/export,960,565055
+1718000003.771,203.0.113.101,/api/items,75,6159
+1718000003.891,203.0.113.42,/api/export,1821,593346
+1718000003.913,203.0.113.4,/api/items,69,4588
+1718000003.941,203.0.113.101,/api/items,110,3265
+1718000004.044,203.0.113.4,/api/items,64,5831
+1718000004.349,203.0.113.4,/api/items,39,3832
+1718000004.405,203.0.113.4,/api/items,66,4609
+1718000004.451,203.0.113.4,/api/items,69,5148
+1718000004.549,203.0.113.56,/api/items,56,2324
+1718000004.569,203.0.113.9,/api/search,199,26868
+1718000004.689,203.0.113.9,/api/items,71,2137
+1718000004.851,203.0.113.199,/api/items,104,4778
+1718000004.905,203.0.113.4,/static/app.js,9,120000
+1718000005.029,203.0.113.4,/static/app.js,12,120000
+1718000005.049,203.0.113.4,/static/app.js,9,120000
+1718000005.072,203.0.113.199,/api/items,83,2148
+1718000005.075,203.0.113.4,/api/items,84,6212
+1718000005.348,203.0.113.4,/api/items,98,6055
+1718000005.568,203.0.113.4,/static/app.js,6,120000
+1718000005.594,203.0.113.4,/api/items,104,2453
+1718000005.778,203.0.113.9,/api/export,1514,426989
+1718000005.783,203.0.113.4,/api/items,66,6481
+1718000005.786,203.0.113.4,/api/export,1121,475810
+1718000005.850,203.0.113.4,/api/items,54,2040
+1718000006.020,203.0.113.4,/api/items,79,4454
+1718000006.047,203.0.113.42,/api/items,78,7386
+1718000006.200,203.0.113.4,/api/items,120,6048
+1718000006.329,203.0.113.9,/api/search,722,34046
+1718000007.900,203.0.113.4,/api/search,-1,22000
+1718000006.399,203.0.113.9,/static/app.js,10,120000
+1718000006.567,203.0.113.9,/api/items,119,7826
+1718000006.685,203.0.113.4,/api/items,68,5697
+1718000006.784,203.0.113.4,/api/search,352,10108
+1718000006.791,203.0.113.4,/static/app.js,11,120000
+1718000006.866,203.0.113.4,/api/search,213,37726
+1718000006.996,203.0.113.56,/api/items,73,5924
+1718000007.030,203.0.113.4,/api/items,80,6912
+1718000007.060,203.0.113.4,/api/search,154,10408
+1718000007.126,203.0.113.4,/static/app.js,4,120000
+1718000007.193,203.0.113.4,/api/search,162,35138
+1718000007.418,203.0.113.199,/api/items,47,6150
+1718000007.477,203.0.113.17,/api/items,52,3161
+1718000007.508,203.0.113.42,/api/items,85,4290
+1718000007.629,203.0.113.4,/api/items,110,2203
+1718000007.929,203.0.113.4,/api/search,171,23637
+1718000007.967,203.0.113.9,/api/search,364,16414
+1718000008.198,203.0.113.4,/api/items,66,6826
+1718000008.458,203.0.113.23,/api/search,406,11691
+1718000008.492,203.0.113.4,/static/app.js,5,120000
+1718000008.563,203.0.113.4,/api/items,160,6539
+1718000008.690,203.0.113.9,/api/items,92,3135
+1718000008.724,203.0.113.4,/api/items,72,4439
+1718000008.858,203.0.113.4,/api/search,216,25832
+1718000008.908,203.0.113.4,/api/items,59,6072
+1718000008.969,203.0.113.4,/api/items,93,6487
+1718000008.978,203.0.113.17,/api/items,56,4116
+1718000009.001,203.0.113.4,/api/items,100,6293
+1718000009.032,203.0.113.4,/api/search,244,21801
+1718000009.102,203.0.113.42,/api/search,394,18880
+1718000009.151,203.0.113.31,/api/search,221,36684
+1718000009.153,203.0.113.4,/api/items,71,2001
+1718000009.419,203.0.113.4,/static/app.js,8,120000
+1718000009.479,203.0.113.4,/api/search,175,32350
+1718000009.653,203.0.113.4,/api/search,264,33429
+1718000009.667,203.0.113.4,/api/items,93,2918
+1718000009.703,203.0.113.4,/static/app.js,5,120000
+1718000009.859,203.0.113.4,/api/items,62,3985
+1718000009.886,203.0.113.4,/api/items,74,5440
+1718000009.912,203.0.113.4,/api/items,65,7700
+1718000009.966,203.0.113.4,/api/search,402,16724
+1718000009.989,203.0.113.17,/api/search,136,18684
+1718000010.024,203.0.113.4,/static/app.js,7,120000
+1718000010.049,203.0.113.4,/api/items,55,3744
+1718000010.140,203.0.113.42,/api/items,84,5683
+`;
+
 export const scenarios: Scenario[] = [
   {
     id: "rr-homogeneous",
     algorithmId: "round-robin",
     workloadId: "steady",
+    workload: { kind: "constant", rps: 30 },
     name: "Homogeneous stateless API",
     summary: "Round robin with identical servers under steady load.",
     setup: [
@@ -153,6 +352,7 @@ export const scenarios: Scenario[] = [
     id: "rr-slow-server",
     algorithmId: "round-robin",
     workloadId: "steady",
+    workload: { kind: "constant", rps: 30 },
     name: "Slow server shows RR weakness",
     summary: "Server 2 is slower but RR still sends it equal traffic.",
     setup: [
@@ -161,9 +361,9 @@ export const scenarios: Scenario[] = [
       "Same concurrency limits",
     ],
     whatHappens: [
-      "RR keeps sending equal traffic",
-      "Server 2 queues build",
-      "Overall latency and p95 spike",
+      "RR keeps sending equal traffic, 10 RPS to each server",
+      "Server 2 holds about three times as many requests in flight, though 10 slots keep it from queueing",
+      "p95 jumps to Server 2's ~370ms while the average stays under 200ms",
     ],
     teaches: [
       "RR ignores performance",
@@ -177,16 +377,107 @@ export const scenarios: Scenario[] = [
       },
       {
         id: "rr-slow-2",
-        text: "Server 2 is slow, so its queue builds while others stay clear.",
+        text: "Server 2 is slow, so it holds more requests in flight than the others.",
         target: "server",
         serverId: "srv-2",
       },
       {
         id: "rr-slow-3",
-        text: "Tail latency spikes because slow queues dominate completion times.",
+        text: "Tail latency rises to Server 2's latency while the average stays low.",
         target: "general",
       },
     ],
+    engine: "event",
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "SLOW",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+    ],
+  },
+  {
+    id: "rr-slow-server-hedged",
+    algorithmId: "round-robin",
+    workloadId: "steady",
+    workload: { kind: "constant", rps: 30 },
+    name: "Hedging around a slow server",
+    summary: "The LB sends a backup copy of slow requests and takes the first answer.",
+    setup: [
+      "Same servers and steady 30 RPS as the slow-server scenario",
+      "Requests unanswered after 150ms are hedged to another server",
+      "The losing copy is cancelled when the winner returns",
+      "Runs on the event engine; the tick engine finishes requests within their tick, so hedges rarely fire there",
+    ],
+    whatHappens: [
+      "Requests stuck on Server 2 get a second chance on a fast server",
+      "p95 latency drops from about 360ms to about 250ms",
+      "About a quarter more requests are started to pay for it",
+    ],
+    teaches: [
+      "Hedging trades extra load for a shorter tail",
+      "A fixed delay catches a whole slow server; a p95 delay only the last 5%",
+      "Cancelling the loser limits the wasted work",
+    ],
+    narration: [
+      {
+        id: "hedge-1",
+        text: "Round robin still sends every third request to slow Server 2.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "hedge-2",
+        text: "After 150ms the LB sends a copy to a faster server.",
+        target: "lb",
+      },
+      {
+        id: "hedge-3",
+        text: "The copy wins and Server 2's slower attempt is cancelled.",
+        target: "server",
+        serverId: "srv-2",
+      },
+    ],
+    engine: "event",
+    hedging: {
+      delay: { kind: "fixed", delayMs: 150 },
+      cancelLoser: true,
+    },
     servers: [
       {
         id: "srv-1",
@@ -235,6 +526,7 @@ export const scenarios: Scenario[] = [
     id: "wrr-weighted-traffic",
     algorithmId: "weighted-round-robin",
     workloadId: "steady",
+    workload: { kind: "constant", rps: 30 },
     name: "Weighted RR with bigger node",
     summary: "Weighted RR sends more traffic to higher-capacity server.",
     setup: [
@@ -317,16 +609,17 @@ export const scenarios: Scenario[] = [
     id: "ewma-latency",
     algorithmId: "ewma",
     workloadId: "steady",
+    workload: { kind: "constant", rps: 30 },
     name: "EWMA avoids slow node",
-    summary: "EWMA steers away from high-latency server over time.",
+    summary: "EWMA scores the slow server worst before it sends a single request.",
     setup: [
       "Server 2 starts SLOW",
       "Steady 30 RPS",
     ],
     whatHappens: [
-      "EWMA learns latency profile",
-      "Traffic shifts away from slow server",
-      "Tail latency improves",
+      "EWMA is seeded with each server's base latency, so it has no samples to wait for: slow Server 2 scores worst from the first request",
+      "Server 2 gets no traffic; Servers 1 and 3 take all of it, not always evenly",
+      "Latency stays at the fast servers' ~100ms",
     ],
     teaches: [
       "Latency-aware routing",
@@ -340,13 +633,13 @@ export const scenarios: Scenario[] = [
       },
       {
         id: "ewma-2",
-        text: "Server 2 latency rises, increasing its EWMA score.",
+        text: "Server 2 is slow, so its EWMA score is the highest.",
         target: "server",
         serverId: "srv-2",
       },
       {
         id: "ewma-3",
-        text: "Traffic shifts toward faster servers as EWMA adapts.",
+        text: "Traffic goes to the faster servers instead.",
         target: "edge-lb-server",
       },
     ],
@@ -471,6 +764,7 @@ export const scenarios: Scenario[] = [
     id: "lc-uneven-load",
     algorithmId: "least-connections",
     workloadId: "steady",
+    workload: { kind: "constant", rps: 30 },
     name: "Least connections stabilizes load",
     summary: "Least connections sends work to the least busy server.",
     setup: [
@@ -479,7 +773,8 @@ export const scenarios: Scenario[] = [
     ],
     whatHappens: [
       "Least-connections favors idle servers",
-      "Queue lengths stay balanced",
+      "At 30 RPS servers are rarely busy, so ties go to Server 1 and it takes a bit more traffic",
+      "Queues stay empty on every server",
     ],
     teaches: [
       "Simple load awareness improves balance",
@@ -541,40 +836,4056 @@ export const scenarios: Scenario[] = [
       },
     ],
   },
-];
-
-export const buildStateFromScenario = (scenario: Scenario): SimulationState => {
-  const base = createInitialState();
-
-  const servers: ServerState[] = scenario.servers.map((server) => ({
-    ...server,
-    inflight: [],
-    queue: [],
-    totalProcessed: 0,
-    totalFailed: 0,
-    ewmaLatencyMs: server.baseLatencyMs,
-    circuitBreakerUntilMs: 0,
-    lastHealthChangeMs: 0,
-  }));
-
-  const loadBalancers: LoadBalancerState[] = scenario.loadBalancers.map((lb) => ({
-    ...lb,
-    droppedRequests: 0,
-    queue: [],
-    activeConnections: 0,
-    healthIntervalMs: base.healthCheckIntervalMs,
-    lastHealthCheckMs: base.timeMs,
-    healthSnapshot: Object.fromEntries(
-      servers.map((server) => [server.id, server.health !== "DOWN"])
-    ),
-  }));
+  {
+    id: "rr-variance-tail",
+    algorithmId: "round-robin",
+    workloadId: "steady",
+    name: "Variance drives tail latency",
+    summary: "Random arrivals and heavy-tailed service times create queueing spikes.",
+    setup: [
+      "3 identical servers, latency 100ms mean",
+      "Poisson arrivals at 20 RPS",
+      "Pareto service times (alpha 1.6)",
+    ],
+    whatHappens: [
+      "Average latency stays close to the mean",
+      "Occasional very slow requests hold slots and queues spike",
+      "p95 drifts far above the average",
+    ],
+    teaches: [
+      "Variance, not just load, causes tail latency",
+      "The same seed reproduces the same run",
+    ],
+    narration: [
+      {
+        id: "var-1",
+        text: "Arrivals are random, so some ticks see far more than 20 requests.",
+        target: "client",
+      },
+      {
+        id: "var-2",
+        text: "A few requests draw very long service times and block a slot.",
+        target: "server",
+        serverId: "srv-2",
+      },
+      {
+        id: "var-3",
+        text: "p95 pulls away from the average even though capacity is ample.",
+        target: "general",
+      },
+    ],
+    seed: 42,
+    arrivalProcess: "poisson",
+    serviceTime: { kind: "pareto", alpha: 1.6 },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+    ],
+  },
+  {
+    id: "aa-least-connections",
+    algorithmId: "least-connections",
+    workloadId: "burst",
+    name: "Active-active LBs interfere",
+    summary: "Two LBs each run least connections on their own partial view.",
+    setup: [
+      "2 load balancers, active-active",
+      "DNS round robin front door",
+      "3 identical servers, burst traffic",
+    ],
+    whatHappens: [
+      "Each LB only counts the connections it opened",
+      "Both LBs pick the same 'idle' server at the same moment",
+      "Servers see uneven bursts even though each LB is balanced",
+    ],
+    teaches: [
+      "Independent balancers do not share load state",
+      "Local least-connections is not global least-connections",
+    ],
+    narration: [
+      {
+        id: "aa-1",
+        text: "DNS round robin alternates clients between both load balancers.",
+        target: "edge-client-lb",
+      },
+      {
+        id: "aa-2",
+        text: "Each LB tracks only its own connections, so both see the same server as idle.",
+        target: "lb",
+        lbId: "lb-2",
+      },
+      {
+        id: "aa-3",
+        text: "The shared servers absorb the combined, uncoordinated bursts.",
+        target: "edge-lb-server",
+      },
+    ],
+    lbMode: "active-active",
+    frontDoorPolicy: "dns-round-robin",
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 120,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 8,
+        serverQueueSize: 10,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 120,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 8,
+        serverQueueSize: 10,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 120,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 8,
+        serverQueueSize: 10,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 30,
+        maxConcurrentConnections: 40,
+        queueSize: 60,
+        routingAlgorithm: "least-connections",
+      },
+      {
+        id: "lb-2",
+        name: "LB Beta",
+        isUp: true,
+        maxConnectionsPerSecond: 30,
+        maxConcurrentConnections: 40,
+        queueSize: 60,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "lb-failover",
+    algorithmId: "round-robin",
+    workloadId: "steady",
+    name: "Leader failover blackout",
+    summary: "Crash the leader LB and watch detection and election delay takeover.",
+    setup: [
+      "2 load balancers, active-passive",
+      "Heartbeat 1s, detection timeout 3s, election 2s",
+      "Queued requests migrate to the new leader",
+      "Use Fail LB to crash the leader",
+    ],
+    whatHappens: [
+      "Arrivals fail while nobody has noticed the crash",
+      "The standby takes over after detection plus election",
+      "Queued and in-flight requests move to the new leader",
+    ],
+    teaches: [
+      "Failover is never instant",
+      "Detection timeouts trade false alarms for outage length",
+      "Connection state sync decides what survives a takeover",
+    ],
+    narration: [
+      {
+        id: "fo-1",
+        text: "The leader sends heartbeats; the standby waits for them to stop.",
+        target: "lb",
+        lbId: "lb-2",
+      },
+      {
+        id: "fo-2",
+        text: "Until the timeout fires, clients keep hitting the dead leader.",
+        target: "edge-client-lb",
+      },
+      {
+        id: "fo-3",
+        text: "After the election the standby owns the VIP and drains the migrated queue.",
+        target: "lb",
+        lbId: "lb-2",
+      },
+    ],
+    failover: {
+      heartbeatIntervalMs: 1000,
+      detectionTimeoutMs: 3000,
+      electionDelayMs: 2000,
+      orphanPolicy: "migrated",
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+      {
+        id: "lb-2",
+        name: "LB Beta",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+    ],
+  },
+  {
+    id: "hc-flapping",
+    algorithmId: "round-robin",
+    workloadId: "steady",
+    name: "Health checks lag and flap",
+    summary: "Probes take time to notice failures and can flap on a loaded server.",
+    setup: [
+      "Probes every 3s, fall after 3 failures, rise after 2 passes",
+      "Probes slower than 60ms count as failures",
+      "Server 2 is SLOW and nearly saturated",
+      "Server 3 starts DOWN and restarts after 8s",
+    ],
+    whatHappens: [
+      "Server 3 is back long before the LB trusts it again",
+      "Server 2 fails probes under load, gets ejected, recovers, and returns",
+      "Between ejections real traffic on Server 2 is slow while probes pass",
+    ],
+    teaches: [
+      "Detection lag is interval times threshold",
+      "Latency thresholds on probes cause flapping under load",
+      "A passing probe does not mean real requests are healthy",
+    ],
+    narration: [
+      {
+        id: "hc-1",
+        text: "Server 3 restarted, but the LB waits for two passing probes.",
+        target: "server",
+        serverId: "srv-3",
+      },
+      {
+        id: "hc-2",
+        text: "Probes to Server 2 slow down with its load and cross the threshold.",
+        target: "server",
+        serverId: "srv-2",
+      },
+      {
+        id: "hc-3",
+        text: "Once ejected, Server 2 drains, passes again, and the cycle repeats.",
+        target: "lb",
+      },
+    ],
+    healthCheck: {
+      riseThreshold: 2,
+      fallThreshold: 3,
+      probeCostMs: 30,
+      slowThresholdMs: 60,
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "SLOW",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "DOWN",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+    ],
+  },
+  {
+    id: "cb-breaker-states",
+    algorithmId: "round-robin",
+    workloadId: "steady",
+    name: "Circuit breakers trip and probe",
+    summary: "Per-server breakers open on slow calls, then test the water with trials.",
+    setup: [
+      "Event engine, breakers judge calls over a 10-call window",
+      "Calls slower than 350ms count as slow; 50% slow trips the breaker",
+      "50% errors or 4 failures in a row also trip it",
+      "Server 2 is SLOW; Server 3 has a single slot",
+    ],
+    whatHappens: [
+      "Server 2 passes health checks but its breaker opens on slow calls",
+      "Its traffic shifts to Server 3, which queues and trips as well",
+      "After 4s each breaker goes half-open and lets 2 trial requests through",
+      "A slow or failed trial re-opens the breaker; passing trials close it",
+    ],
+    teaches: [
+      "Breakers react to real traffic, health checks to probes",
+      "Half-open limits how much traffic a recovering server sees",
+      "Breakers that reopen repeatedly point at a capacity problem",
+    ],
+    narration: [
+      {
+        id: "cb-1",
+        text: "Real requests to Server 2 are slow, so its breaker opens.",
+        target: "server",
+        serverId: "srv-2",
+      },
+      {
+        id: "cb-2",
+        text: "Server 3 picks up the extra traffic, queues, and trips too.",
+        target: "server",
+        serverId: "srv-3",
+      },
+      {
+        id: "cb-3",
+        text: "Half-open breakers send a couple of trials before trusting a server again.",
+        target: "lb",
+      },
+    ],
+    engine: "event",
+    circuitBreaker: {
+      consecutiveFailures: 4,
+      errorRateThreshold: 0.5,
+      slowCallThresholdMs: 350,
+      slowCallRateThreshold: 0.5,
+      windowSize: 10,
+      minimumCalls: 5,
+      openDurationMs: 4000,
+      halfOpenMaxCalls: 2,
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 120,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "SLOW",
+        baseLatencyMs: 220,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 8,
+        serverQueueSize: 10,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 1,
+        serverQueueSize: 1,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+    ],
+  },
+  {
+    id: "retry-storm",
+    algorithmId: "least-connections",
+    workloadId: "burst",
+    name: "Retry storm after a burst",
+    summary: "Clients retry every failure immediately and keep the overload going.",
+    setup: [
+      "Burst workload: 8 RPS with 53 RPS spikes",
+      "Three small servers, about 25 RPS of capacity",
+      "Clients retry up to 5 times, 50ms fixed backoff, no jitter, no budget",
+    ],
+    whatHappens: [
+      "The spike fills every server and the LB starts failing requests",
+      "Each failure comes back 50ms later, often several times",
+      "Failed attempts outnumber the original excess several times over",
+    ],
+    teaches: [
+      "Retries multiply load exactly when capacity is short",
+      "Synchronized retries arrive in waves",
+      "Without a budget nothing limits the amplification",
+    ],
+    narration: [
+      {
+        id: "rs-1",
+        text: "The spike fills the servers and the first requests fail.",
+        target: "server",
+      },
+      {
+        id: "rs-2",
+        text: "Every failure returns as a retry, adding load on top of the spike.",
+        target: "client",
+      },
+      {
+        id: "rs-3",
+        text: "Most of the failures are now retries failing again.",
+        target: "lb",
+      },
+    ],
+    engine: "event",
+    retry: {
+      maxAttempts: 5,
+      baseBackoffMs: 50,
+      maxBackoffMs: 50,
+      multiplier: 1,
+      jitter: "none",
+      budget: { kind: "unlimited" },
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 60,
+        maxConcurrentConnections: 60,
+        queueSize: 10,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "retry-budget",
+    algorithmId: "least-connections",
+    workloadId: "burst",
+    name: "Retry budget contains the storm",
+    summary: "Backoff, jitter and a token bucket keep retries from amplifying a burst.",
+    setup: [
+      "Same burst and servers as the retry storm",
+      "Exponential backoff from 100ms with full jitter",
+      "A token bucket of 10 retries refilling at 2 per second",
+    ],
+    whatHappens: [
+      "The first failures are retried, spread out by jitter",
+      "Once the bucket is empty, failures are final",
+      "Far fewer attempts fail, and the LB queue stays short",
+    ],
+    teaches: [
+      "Budgets cap how much extra load retries can add",
+      "Jitter breaks up retry waves",
+      "Some failures are better surfaced than retried",
+    ],
+    narration: [
+      {
+        id: "rb-1",
+        text: "Early failures are retried at random offsets.",
+        target: "client",
+      },
+      {
+        id: "rb-2",
+        text: "The bucket runs dry and further failures are not retried.",
+        target: "lb",
+      },
+      {
+        id: "rb-3",
+        text: "With retries capped, the LB queue has room for new requests.",
+        target: "server",
+      },
+    ],
+    engine: "event",
+    retry: {
+      maxAttempts: 5,
+      baseBackoffMs: 100,
+      maxBackoffMs: 2000,
+      multiplier: 2,
+      jitter: "full",
+      budget: { kind: "token-bucket", capacity: 10, refillPerSecond: 2 },
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 60,
+        maxConcurrentConnections: 60,
+        queueSize: 10,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "timeout-metastable",
+    algorithmId: "least-connections",
+    workloadId: "burst",
+    name: "Timeouts, retries and wasted work",
+    summary: "Clients time out during a burst and their retries keep the backlog alive.",
+    setup: [
+      "Burst workload against about 12 RPS of capacity",
+      "Clients give up after 1s and retry up to 3 more times",
+      "Timeouts cancel queued work; in-flight work keeps running",
+      "A 200-deep LB queue holds the backlog",
+    ],
+    whatHappens: [
+      "During the burst the LB queue grows past the client timeout",
+      "Timed-out requests return as retries at the back of the queue",
+      "Servers finish requests whose clients already left: wasted work",
+      "Goodput stays low after the burst while the retry backlog drains",
+    ],
+    teaches: [
+      "A queue longer than the timeout serves only abandoned requests",
+      "Retries on timeout turn a short spike into lasting overload",
+      "Cancellation and deadline checks keep servers on useful work",
+    ],
+    narration: [
+      {
+        id: "tm-1",
+        text: "The burst builds an LB queue longer than the client timeout.",
+        target: "lb",
+      },
+      {
+        id: "tm-2",
+        text: "Clients time out and retry, adding to the same queue.",
+        target: "client",
+      },
+      {
+        id: "tm-3",
+        text: "Servers stay busy, but much of what they finish is wasted.",
+        target: "server",
+      },
+    ],
+    engine: "event",
+    retry: {
+      maxAttempts: 4,
+      baseBackoffMs: 100,
+      maxBackoffMs: 400,
+      multiplier: 2,
+      jitter: "full",
+      budget: { kind: "unlimited" },
+    },
+    timeouts: {
+      clientTimeoutMs: 1000,
+    },
+    circuitBreaker: {
+      consecutiveFailures: null,
+      errorRateThreshold: null,
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 2,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 2,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 2,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 60,
+        maxConcurrentConnections: 60,
+        queueSize: 200,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "sticky-source-ip",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Source-IP stickiness hot spot",
+    summary: "Hashing on source IP pins whole offices to one server.",
+    setup: [
+      "90 clients behind 4 NAT addresses, some offices much busier",
+      "The LB hashes the source IP to pick a server",
+      "Least connections only runs when the pinned server is unhealthy",
+    ],
+    whatHappens: [
+      "Two busy addresses hash to the same server",
+      "That server queues while another sits almost idle",
+      "Least connections never gets a say",
+    ],
+    teaches: [
+      "Stickiness overrides load balancing",
+      "NAT turns many clients into a few huge ones",
+      "Hash affinity balances keys, not load",
+    ],
+    narration: [
+      {
+        id: "ip-1",
+        text: "Every request from one office carries the same source IP.",
+        target: "client",
+      },
+      {
+        id: "ip-2",
+        text: "The hash sends two busy offices to the same server.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "ip-3",
+        text: "The hot server queues while its neighbours have spare capacity.",
+        target: "server",
+      },
+    ],
+    engine: "event",
+    clients: { count: 90, sourceIps: 4, zipfExponent: 1 },
+    affinity: { mode: "source-ip" },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 20,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 20,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 20,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "sticky-cookie-failover",
+    algorithmId: "round-robin",
+    workloadId: "steady",
+    name: "Cookie sessions and a server crash",
+    summary: "Sticky cookies keep clients on one server until it fails.",
+    setup: [
+      "60 clients, each pinned by a cookie that lives 20s",
+      "Round robin only places new or expired sessions",
+      "Use Fail server to crash the busiest server",
+    ],
+    whatHappens: [
+      "Clients keep returning to the server in their cookie",
+      "After a crash, pinned requests fail until health checks notice",
+      "Then the LB reroutes those clients and rewrites their cookies",
+      "When the server comes back it only receives new sessions",
+    ],
+    teaches: [
+      "Session state on a server dies with it",
+      "Detection lag decides how many sticky requests fail",
+      "A recovered server stays cold until cookies expire",
+    ],
+    narration: [
+      {
+        id: "ck-1",
+        text: "Each client's first request sets a cookie naming its server.",
+        target: "client",
+      },
+      {
+        id: "ck-2",
+        text: "After a crash, pinned clients fail until the LB marks the server down.",
+        target: "server",
+      },
+      {
+        id: "ck-3",
+        text: "Rerouted clients get new cookies; the recovered server stays quiet.",
+        target: "lb",
+      },
+    ],
+    engine: "event",
+    affinity: { mode: "cookie", cookieTtlMs: 20000, fallback: "reroute" },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+    ],
+  },
+  {
+    id: "ring-hash-server-down",
+    algorithmId: "ring-hash",
+    workloadId: "steady",
+    name: "Ring hash and a lost server",
+    summary: "Only the failed server's keys move; everyone else stays put.",
+    setup: [
+      "4 servers on a ring with 64 virtual nodes each",
+      "200 clients, each routed by its client id",
+      "Use Fail server to take one server out",
+    ],
+    whatHappens: [
+      "Each client keeps hitting the same server",
+      "Virtual nodes leave the split a little uneven",
+      "When a server fails its keys walk clockwise to their neighbours",
+      "About a quarter of keys move; modulo hashing would move most of them",
+    ],
+    teaches: [
+      "Consistent hashing keeps keys where their cache is warm",
+      "Virtual nodes trade memory for balance",
+      "Failures only disturb the keys that were on the failed server",
+    ],
+    narration: [
+      {
+        id: "ring-1",
+        text: "The LB hashes each client id onto the ring.",
+        target: "lb",
+      },
+      {
+        id: "ring-2",
+        text: "The first virtual node clockwise owns the key.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "ring-3",
+        text: "A failed server's keys slide to the next node; the rest stay put.",
+        target: "server",
+      },
+    ],
+    engine: "event",
+    clients: { count: 200 },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-4",
+        name: "Server 4",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "ring-hash",
+      },
+    ],
+  },
+  {
+    id: "maglev-even-spread",
+    algorithmId: "maglev",
+    workloadId: "steady",
+    name: "Maglev lookup table",
+    summary: "A fixed-size lookup table spreads keys almost perfectly evenly.",
+    setup: [
+      "4 identical servers",
+      "200 clients, each routed by its client id",
+      "Maglev table of 251 slots",
+    ],
+    whatHappens: [
+      "Every server owns nearly the same number of slots",
+      "Clients stick to the server their slot names",
+      "After a failure the table is rebuilt and a few extra keys move",
+    ],
+    teaches: [
+      "Maglev favours balance and fast lookups",
+      "It gives up a little stability compared to a ring",
+      "Compare the remap table with the ring hash scenario",
+    ],
+    narration: [
+      {
+        id: "mag-1",
+        text: "Each server fills table slots from its own permutation, in turns.",
+        target: "lb",
+      },
+      {
+        id: "mag-2",
+        text: "A request's key picks a slot; the slot names the server.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "mag-3",
+        text: "Load is spread nearly evenly across the servers.",
+        target: "server",
+      },
+    ],
+    engine: "event",
+    clients: { count: 200 },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-4",
+        name: "Server 4",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "maglev",
+      },
+    ],
+  },
+  {
+    id: "rendezvous-weighted",
+    algorithmId: "rendezvous",
+    workloadId: "steady",
+    name: "Weighted rendezvous hashing",
+    summary: "Every server bids for each key; weight scales the bid.",
+    setup: [
+      "3 servers with weights 1, 1 and 2",
+      "200 clients, each routed by its client id",
+      "No ring or table to maintain",
+    ],
+    whatHappens: [
+      "Server 3 owns about half of the keys",
+      "Clients stick to the server with their highest score",
+      "Removing a server only moves the keys it won",
+    ],
+    teaches: [
+      "HRW needs no shared state beyond the server list",
+      "Weights carry over without virtual nodes",
+      "Lookups cost one hash per server",
+    ],
+    narration: [
+      {
+        id: "hrw-1",
+        text: "For every request the LB scores each server against the client id.",
+        target: "lb",
+      },
+      {
+        id: "hrw-2",
+        text: "The highest score wins, so the choice is stable.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "hrw-3",
+        text: "The weight-2 server wins about twice as many keys.",
+        target: "server",
+        serverId: "srv-3",
+      },
+    ],
+    engine: "event",
+    clients: { count: 200 },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 2,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "rendezvous",
+      },
+    ],
+  },
+  {
+    id: "wlc-mixed-capacity",
+    algorithmId: "weighted-least-connections",
+    workloadId: "burst",
+    name: "Weighted least connections on mixed hardware",
+    summary: "Active requests are divided by weight so the big server takes its share.",
+    setup: [
+      "Servers 1 and 2: 5 slots, weight 1",
+      "Server 3: 15 slots, weight 3",
+      "Bursty traffic",
+    ],
+    whatHappens: [
+      "Server 3 carries more than twice the work of each small server",
+      "Plain least connections would split work almost evenly",
+      "p95 latency ends up lower than with least connections",
+    ],
+    teaches: [
+      "Weights express capacity, connections express load",
+      "WLC combines both in one score",
+    ],
+    narration: [
+      {
+        id: "wlc-1",
+        text: "The LB divides each server's active requests by its weight.",
+        target: "lb",
+      },
+      {
+        id: "wlc-2",
+        text: "Server 3 can hold three times as many requests before it looks busy.",
+        target: "server",
+        serverId: "srv-3",
+      },
+      {
+        id: "wlc-3",
+        text: "Traffic spreads in proportion to capacity.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 500,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 5,
+        serverQueueSize: 10,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 500,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 5,
+        serverQueueSize: 10,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 500,
+        slowMultiplier: 1.8,
+        weight: 3,
+        maxConcurrentRequests: 15,
+        serverQueueSize: 30,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "weighted-least-connections",
+      },
+    ],
+  },
+  {
+    id: "lrt-slow-server",
+    algorithmId: "least-response-time",
+    workloadId: "steady",
+    name: "Least response time around a slow server",
+    summary: "Latency times active requests keeps traffic off the slow server.",
+    setup: [
+      "Server 2 is SLOW (1.8x latency)",
+      "Steady traffic",
+      "Score is EWMA latency x (active + 1)",
+    ],
+    whatHappens: [
+      "The slow server gets fewer requests",
+      "It still gets some whenever the fast servers are busy",
+      "Latency stays close to the fast servers",
+    ],
+    teaches: [
+      "Combining latency and load beats either alone",
+      "Slow servers are used, not abandoned",
+    ],
+    narration: [
+      {
+        id: "lrt-1",
+        text: "The LB multiplies each server's latency by its active requests.",
+        target: "lb",
+      },
+      {
+        id: "lrt-2",
+        text: "Server 2's high latency makes each of its requests count for more.",
+        target: "server",
+        serverId: "srv-2",
+      },
+      {
+        id: "lrt-3",
+        text: "Fast servers absorb most traffic until they get busy.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "SLOW",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-response-time",
+      },
+    ],
+  },
+  {
+    id: "peak-ewma-slow-server",
+    algorithmId: "peak-ewma",
+    workloadId: "burst",
+    name: "Peak EWMA reacts to the first slow response",
+    summary: "Latency spikes count immediately and fade slowly.",
+    setup: [
+      "Server 2 is SLOW but starts with a normal estimate",
+      "Bursty traffic, 4 slots per server",
+      "Estimates decay over 10s",
+    ],
+    whatHappens: [
+      "The first slow response replaces Server 2's estimate",
+      "Outstanding requests raise a server's cost, so bursts spread out",
+      "Plain EWMA herds every burst onto the fastest server and queues there",
+    ],
+    teaches: [
+      "Peak sensitivity catches regressions fast",
+      "Decay lets a recovered server back in",
+      "Load awareness stops latency-based herding",
+    ],
+    narration: [
+      {
+        id: "pk-1",
+        text: "Each server starts with its baseline latency as the estimate.",
+        target: "lb",
+      },
+      {
+        id: "pk-2",
+        text: "Server 2's first slow response jumps straight into its estimate.",
+        target: "server",
+        serverId: "srv-2",
+      },
+      {
+        id: "pk-3",
+        text: "Cost is estimate x outstanding requests, so busy servers look worse.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "SLOW",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "peak-ewma",
+      },
+    ],
+  },
+  {
+    id: "random-burst",
+    algorithmId: "random",
+    workloadId: "burst",
+    name: "Random placement under bursts",
+    summary: "Seeded random spreads load evenly on average, but not at every moment.",
+    setup: [
+      "3 identical servers with 4 slots each",
+      "Bursty traffic",
+      "Same seed gives the same draws",
+    ],
+    whatHappens: [
+      "Over a run each server gets about a third of requests",
+      "During bursts one server often queues while another idles",
+      "Tail latency is worse than with load-aware picks",
+    ],
+    teaches: [
+      "Random needs no state and no coordination",
+      "Averages hide short-term imbalance",
+      "A baseline for JSQ and P2C",
+    ],
+    narration: [
+      {
+        id: "rnd-1",
+        text: "The LB draws a server at random for each request.",
+        target: "lb",
+      },
+      {
+        id: "rnd-2",
+        text: "Unlucky streaks pile requests onto one server.",
+        target: "server",
+      },
+      {
+        id: "rnd-3",
+        text: "Over time the counts even out.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "random",
+      },
+    ],
+  },
+  {
+    id: "jsq-d-burst",
+    algorithmId: "jsq",
+    workloadId: "burst",
+    name: "Join shortest queue with three choices",
+    summary: "Sampling a few servers and joining the shortest queue nearly matches full JSQ.",
+    setup: [
+      "6 servers with 2 slots each",
+      "Bursty traffic",
+      "Each request samples d = 3 servers",
+    ],
+    whatHappens: [
+      "Work splits evenly across all six servers",
+      "p95 latency is clearly lower than with random placement",
+      "The LB never scans every server",
+    ],
+    teaches: [
+      "A few random choices remove most imbalance",
+      "d trades lookup cost for balance",
+      "Compare with Random and P2C",
+    ],
+    narration: [
+      {
+        id: "jsq-1",
+        text: "For each request the LB samples three servers.",
+        target: "lb",
+      },
+      {
+        id: "jsq-2",
+        text: "It joins whichever sampled server has the shortest queue.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "jsq-3",
+        text: "Queues stay even without checking every server.",
+        target: "server",
+      },
+    ],
+    engine: "event",
+    jsqChoices: 3,
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 6,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 6,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 6,
+      },
+      {
+        id: "srv-4",
+        name: "Server 4",
+        health: "UP",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 6,
+      },
+      {
+        id: "srv-5",
+        name: "Server 5",
+        health: "UP",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 6,
+      },
+      {
+        id: "srv-6",
+        name: "Server 6",
+        health: "UP",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 6,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "jsq",
+      },
+    ],
+  },
+  {
+    id: "swrr-interleaved",
+    algorithmId: "smooth-weighted-round-robin",
+    workloadId: "steady",
+    name: "Smooth weighted round robin",
+    summary: "Weights are honoured without sending a heavy server its turns in a run.",
+    setup: [
+      "Server 1 weight 3, Servers 2 and 3 weight 1",
+      "Steady traffic",
+      "Watch the selection sequence",
+    ],
+    whatHappens: [
+      "Server 1 still gets 3 of every 5 requests",
+      "Its picks are spread out: 1 2 1 3 1, not 1 1 1 2 3",
+      "Short bursts never pile onto one server",
+    ],
+    teaches: [
+      "Same shares as classic WRR, smoother order",
+      "nginx keeps a current weight per server",
+      "Compare the sequence with Weighted Round Robin",
+    ],
+    narration: [
+      {
+        id: "swrr-1",
+        text: "Each pick, every server's current weight grows by its weight.",
+        target: "lb",
+      },
+      {
+        id: "swrr-2",
+        text: "The highest current weight wins and pays back the total.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "swrr-3",
+        text: "Server 1 wins often, but never three times in a row.",
+        target: "server",
+        serverId: "srv-1",
+      },
+    ],
+    engine: "event",
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 3,
+        maxConcurrentRequests: 12,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "smooth-weighted-round-robin",
+      },
+    ],
+  },
+  {
+    id: "dynamic-weights-latency",
+    algorithmId: "smooth-weighted-round-robin",
+    workloadId: "steady",
+    name: "Dynamic weights from latency",
+    summary: "Weights shrink as a server slows down, so smooth WRR sends it less.",
+    setup: [
+      "Server 2 is SLOW (1.8x latency)",
+      "All servers start at weight 2",
+      "Weights follow fastest EWMA / server EWMA",
+    ],
+    whatHappens: [
+      "Server 2's EWMA rises and its weight drops",
+      "Smooth WRR sends it proportionally fewer requests",
+      "Weights never fall below 10% of the configured value",
+    ],
+    teaches: [
+      "Static weights cannot react to a degraded server",
+      "Latency feedback turns WRR into a load-aware policy",
+    ],
+    narration: [
+      {
+        id: "dwl-1",
+        text: "The LB starts with equal weights.",
+        target: "lb",
+      },
+      {
+        id: "dwl-2",
+        text: "Server 2 answers slowly and its weight is cut.",
+        target: "server",
+        serverId: "srv-2",
+      },
+      {
+        id: "dwl-3",
+        text: "Traffic shifts to the faster servers.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    dynamicWeights: { mode: "latency" },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 2,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "SLOW",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 2,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 2,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "smooth-weighted-round-robin",
+      },
+    ],
+  },
+  {
+    id: "dynamic-weights-errors",
+    algorithmId: "smooth-weighted-round-robin",
+    workloadId: "steady",
+    name: "Dynamic weights from errors",
+    summary: "Every 504 from a server cuts its weight; successes earn it back slowly.",
+    setup: [
+      "Server 2 is SLOW and misses the 300ms upstream timeout",
+      "All servers start at weight 4",
+      "Circuit breakers are off",
+    ],
+    whatHappens: [
+      "Each timeout on Server 2 takes a quarter off its weight",
+      "It bottoms out near the 10% floor and gets only a trickle",
+      "That trickle keeps probing it, so it can climb back after recovery",
+    ],
+    teaches: [
+      "Error feedback sheds traffic without ejecting the server",
+      "The floor keeps a path to recovery open",
+    ],
+    narration: [
+      {
+        id: "dwe-1",
+        text: "Requests to Server 2 time out at the LB.",
+        target: "server",
+        serverId: "srv-2",
+      },
+      {
+        id: "dwe-2",
+        text: "Each failure cuts Server 2's weight.",
+        target: "lb",
+      },
+      {
+        id: "dwe-3",
+        text: "Smooth WRR now sends Server 2 only occasional requests.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    dynamicWeights: { mode: "errors" },
+    timeouts: { lbUpstreamTimeoutMs: 300 },
+    circuitBreaker: { consecutiveFailures: null, errorRateThreshold: null },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 4,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "SLOW",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 4,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 4,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "smooth-weighted-round-robin",
+      },
+    ],
+  },
+  {
+    id: "recovery-thundering-herd",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Thundering herd on recovery",
+    summary: "A recovered server with a cold cache is flooded by least connections.",
+    setup: [
+      "Server 3 starts DOWN and comes back after 8s",
+      "A recovered server starts 5x slower while its cache warms",
+      "No slow start",
+    ],
+    whatHappens: [
+      "Server 3 rejoins with zero active requests and gets a full share at once",
+      "Its cache is still cold, so those requests take several times longer",
+      "p95 climbs while the cache warms",
+    ],
+    teaches: [
+      "Empty looks attractive to load-aware algorithms",
+      "Recovery can hurt more than the outage",
+      "Compare with the slow-start scenario",
+    ],
+    narration: [
+      {
+        id: "herd-1",
+        text: "Server 3 is down; the others carry the load.",
+        target: "server",
+        serverId: "srv-3",
+      },
+      {
+        id: "herd-2",
+        text: "Once healthy, it has the fewest connections, so it is picked first.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "herd-3",
+        text: "Its cold cache turns that burst into slow responses.",
+        target: "server",
+        serverId: "srv-3",
+      },
+    ],
+    engine: "event",
+    coldCache: { penaltyFactor: 5, decayMs: 10000 },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 6,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 6,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "DOWN",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 6,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "recovery-slow-start",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Slow start after recovery",
+    summary: "Capping a recovered server's connections lets its cache warm first.",
+    setup: [
+      "Same servers and cold cache as the thundering-herd scenario",
+      "Slow start ramps Server 3's connection cap over 20s",
+      "Starts at 10% of its slots",
+    ],
+    whatHappens: [
+      "Server 3 starts with one slot and takes a third of its usual share",
+      "Fewer requests pay the cold-cache penalty while the cap rises",
+      "Peak p95 stays lower than in the thundering-herd scenario",
+    ],
+    teaches: [
+      "Slow start protects servers that are up but not ready",
+      "Ramp length should match cache warm-up time",
+    ],
+    narration: [
+      {
+        id: "ss-1",
+        text: "Server 3 is marked healthy and enters slow start.",
+        target: "lb",
+      },
+      {
+        id: "ss-2",
+        text: "Its connection cap starts at one slot and grows.",
+        target: "server",
+        serverId: "srv-3",
+      },
+      {
+        id: "ss-3",
+        text: "The other servers keep most traffic until it is warm.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    coldCache: { penaltyFactor: 5, decayMs: 10000 },
+    slowStart: { windowMs: 20000, mode: "connections" },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 6,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 6,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "DOWN",
+        baseLatencyMs: 300,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 6,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "autoscale-target-tracking",
+    algorithmId: "least-connections",
+    workloadId: "surge",
+    name: "Target tracking through a surge",
+    summary: "The fleet grows to hold CPU near its target, then drains back down.",
+    setup: [
+      "Two servers with 4 slots at 200ms, about 20 rps each",
+      "Traffic jumps from 15 to 60 rps for a minute",
+      "Target tracking on CPU at 60%, 10s to boot a server",
+    ],
+    whatHappens: [
+      "The surge saturates both servers and queues build",
+      "New servers come into service 10s after each launch",
+      "After the surge the newest servers drain and leave",
+    ],
+    teaches: [
+      "Provisioning delay is the gap autoscaling cannot cover",
+      "Scale-in should drain, not cut connections",
+    ],
+    narration: [
+      {
+        id: "as-1",
+        text: "The surge arrives and both servers fill up.",
+        target: "server",
+        serverId: "srv-1",
+      },
+      {
+        id: "as-2",
+        text: "The autoscaler launches servers to bring CPU back to 60%.",
+        target: "general",
+      },
+      {
+        id: "as-3",
+        text: "When traffic drops, extra servers drain before leaving.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    autoscaling: {
+      policy: { kind: "target-tracking", metric: "cpu", target: 0.6 },
+      minServers: 2,
+      maxServers: 6,
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "autoscale-step-scaling",
+    algorithmId: "least-connections",
+    workloadId: "surge",
+    name: "Step scaling on queued work",
+    summary: "Bigger breaches add more servers at once.",
+    setup: [
+      "Same fleet and surge as the target-tracking scenario",
+      "Inflight utilization counts queued requests too",
+      "Above 150% add 2 servers, above 80% add 1, below 30% remove 1",
+    ],
+    whatHappens: [
+      "The surge pushes utilization past 150% and two servers launch together",
+      "The cooldown holds off the next step until they have booted",
+      "Quiet periods remove one server per step",
+    ],
+    teaches: [
+      "Step sizes trade reaction speed for overshoot",
+      "Queue-aware metrics see overload that CPU caps at 100%",
+    ],
+    narration: [
+      {
+        id: "sc-1",
+        text: "Queued work pushes utilization far past 100%.",
+        target: "server",
+        serverId: "srv-1",
+      },
+      {
+        id: "sc-2",
+        text: "The largest step adds two servers at once.",
+        target: "general",
+      },
+      {
+        id: "sc-3",
+        text: "Once traffic drops, servers leave one step at a time.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    autoscaling: {
+      policy: {
+        kind: "step",
+        metric: "inflight",
+        steps: [
+          { lower: 1.5, upper: null, adjust: 2 },
+          { lower: 0.8, upper: 1.5, adjust: 1 },
+          { lower: 0, upper: 0.3, adjust: -1 },
+        ],
+      },
+      minServers: 2,
+      maxServers: 6,
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "autoscale-scheduled",
+    algorithmId: "least-connections",
+    workloadId: "surge",
+    name: "Scheduled scaling ahead of a known peak",
+    summary: "Servers booted before the surge absorb it without queueing.",
+    setup: [
+      "Same fleet and surge as the target-tracking scenario",
+      "A schedule asks for 4 servers at 2s and 2 again at 80s",
+      "Servers still take 10s to boot",
+    ],
+    whatHappens: [
+      "Two extra servers are in service before the surge starts at 15s",
+      "Latency barely moves when traffic quadruples",
+      "They drain after the surge ends",
+    ],
+    teaches: [
+      "Predictable peaks are cheaper to schedule than to chase",
+      "A schedule does not react to surprises",
+    ],
+    narration: [
+      {
+        id: "sd-1",
+        text: "The schedule launches two servers before any load arrives.",
+        target: "general",
+      },
+      {
+        id: "sd-2",
+        text: "Four servers share the surge.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "sd-3",
+        text: "At 80s the extra servers drain away.",
+        target: "server",
+        serverId: "srv-2",
+      },
+    ],
+    engine: "event",
+    autoscaling: {
+      policy: {
+        kind: "scheduled",
+        schedule: [
+          { atMs: 2000, desired: 4 },
+          { atMs: 80000, desired: 2 },
+        ],
+      },
+      minServers: 2,
+      maxServers: 6,
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "rolling-replacement",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Rolling replacement",
+    summary: "Each drained server is replaced, so a deploy never drops capacity for long.",
+    setup: [
+      "Three servers with 6 slots at 400ms under steady 20 rps",
+      "A scheduled policy holds the fleet at 3 servers",
+      "Replacements take 5s to boot and join cold",
+    ],
+    whatHappens: [
+      "Use Drain server to take servers out one at a time",
+      "The autoscaler launches a replacement as soon as capacity drops",
+      "New servers warm up before they get a full share",
+    ],
+    teaches: [
+      "Drain plus replace is a rolling deploy",
+      "Boot time decides how far to go between steps",
+    ],
+    narration: [
+      {
+        id: "rr-1",
+        text: "A server is drained for the deploy.",
+        target: "server",
+        serverId: "srv-1",
+      },
+      {
+        id: "rr-2",
+        text: "The autoscaler sees 2 of 3 servers and launches one.",
+        target: "general",
+      },
+      {
+        id: "rr-3",
+        text: "The replacement joins cold and ramps up.",
+        target: "lb",
+      },
+    ],
+    engine: "event",
+    drainTimeoutMs: 10000,
+    autoscaling: {
+      policy: { kind: "scheduled", schedule: [{ atMs: 0, desired: 3 }] },
+      minServers: 3,
+      maxServers: 4,
+      evaluationIntervalMs: 1000,
+      provisioningDelayMs: 5000,
+    },
+    coldCache: { penaltyFactor: 2, decayMs: 5000 },
+    slowStart: { windowMs: 10000, mode: "connections" },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 6,
+        serverQueueSize: 6,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 6,
+        serverQueueSize: 6,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 6,
+        serverQueueSize: 6,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "graceful-drain",
+    algorithmId: "round-robin",
+    workloadId: "steady",
+    name: "Graceful drain with a deadline",
+    summary: "A drained server finishes what it holds, up to the drain timeout.",
+    setup: [
+      "Three servers with 4 slots at 250ms under steady 20 rps",
+      "Long-tailed service times (lognormal)",
+      "Drain timeout of 1s",
+    ],
+    whatHappens: [
+      "Use Drain server: the LB stops sending it requests at once",
+      "Most of its requests finish and it leaves the fleet",
+      "Now and then a straggler still running at 1s is cut off",
+    ],
+    teaches: [
+      "Draining turns removal into a wait instead of an error",
+      "The drain timeout should cover the slowest requests you care about",
+    ],
+    narration: [
+      {
+        id: "gd-1",
+        text: "Drain server marks the busiest server DRAINING.",
+        target: "server",
+        serverId: "srv-1",
+      },
+      {
+        id: "gd-2",
+        text: "The LB skips it while its requests complete.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "gd-3",
+        text: "At the deadline it is deregistered, cutting off any stragglers.",
+        target: "lb",
+      },
+    ],
+    engine: "event",
+    drainTimeoutMs: 1000,
+    serviceTime: { kind: "lognormal", sigma: 1.2 },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 250,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 10,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 250,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 10,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 250,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 10,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+    ],
+  },
+  {
+    id: "zone-prefer-local",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Prefer local zone",
+    summary: "Keeping traffic in-zone is cheap until the local zone runs out of room.",
+    setup: [
+      "Three zones, one LB each; zone A has one server, B and C two",
+      "60% of clients live in zone A",
+      "Each cross-zone hop adds 30ms",
+      "Prefer-local routing",
+    ],
+    whatHappens: [
+      "Zone A's LB keeps every request on its one server",
+      "That server's queue fills and requests fail",
+      "Zones B and C sit half idle",
+    ],
+    teaches: [
+      "Zone affinity saves latency, not capacity",
+      "Local-only routing needs capacity where the clients are",
+    ],
+    narration: [
+      {
+        id: "zp-1",
+        text: "Clients reach the LB in their own zone.",
+        target: "lb",
+        lbId: "lb-1",
+      },
+      {
+        id: "zp-2",
+        text: "Zone A's only server is overwhelmed.",
+        target: "server",
+        serverId: "srv-1",
+      },
+      {
+        id: "zp-3",
+        text: "Healthy capacity in other zones goes unused.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    lbMode: "active-active",
+    zones: {
+      routing: "prefer-local",
+      clientShares: { "zone-a": 0.6, "zone-b": 0.2, "zone-c": 0.2 },
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        zone: "zone-a",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        zone: "zone-b",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        zone: "zone-b",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-4",
+        name: "Server 4",
+        zone: "zone-c",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-5",
+        name: "Server 5",
+        zone: "zone-c",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        zone: "zone-a",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+      {
+        id: "lb-2",
+        name: "LB Beta",
+        zone: "zone-b",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+      {
+        id: "lb-3",
+        name: "LB Gamma",
+        zone: "zone-c",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "zone-spillover",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Spill over when the zone is full",
+    summary: "Overflow leaves the zone only once local capacity is exhausted.",
+    setup: [
+      "Three zones, one LB each; zone A has one server, B and C two",
+      "60% of clients live in zone A",
+      "Each cross-zone hop adds 30ms",
+      "Spillover routing",
+    ],
+    whatHappens: [
+      "Zone A's server fills up first",
+      "The overflow crosses to zones B and C at +30ms",
+      "Failures disappear; most traffic stays local",
+    ],
+    teaches: [
+      "Spillover trades a little latency for availability",
+      "Cross-zone traffic appears exactly when a zone is short",
+    ],
+    narration: [
+      {
+        id: "zs-1",
+        text: "Zone A's LB fills its local server.",
+        target: "server",
+        serverId: "srv-1",
+      },
+      {
+        id: "zs-2",
+        text: "Overflow spills to the other zones.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "zs-3",
+        text: "Cross-zone requests pay the extra round trip.",
+        target: "general",
+      },
+    ],
+    engine: "event",
+    lbMode: "active-active",
+    zones: {
+      routing: "spillover",
+      clientShares: { "zone-a": 0.6, "zone-b": 0.2, "zone-c": 0.2 },
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        zone: "zone-a",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        zone: "zone-b",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        zone: "zone-b",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-4",
+        name: "Server 4",
+        zone: "zone-c",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-5",
+        name: "Server 5",
+        zone: "zone-c",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        zone: "zone-a",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+      {
+        id: "lb-2",
+        name: "LB Beta",
+        zone: "zone-b",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+      {
+        id: "lb-3",
+        name: "LB Gamma",
+        zone: "zone-c",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "zone-locality-weighted",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Locality-weighted routing",
+    summary: "Each request picks a zone by weight and health, not by where it entered.",
+    setup: [
+      "Three zones, one LB each; zone A has one server, B and C two",
+      "60% of clients live in zone A",
+      "Each cross-zone hop adds 30ms",
+      "Locality weights A 1, B 2, C 2",
+    ],
+    whatHappens: [
+      "Traffic follows the zone weights, whichever LB it entered",
+      "Load matches capacity, so nothing overflows",
+      "Most requests cross zones and pay the round trip",
+    ],
+    teaches: [
+      "Locality weights express capacity per zone",
+      "Unhealthy zones lose weight automatically",
+    ],
+    narration: [
+      {
+        id: "zl-1",
+        text: "Every LB spreads requests across all zones.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "zl-2",
+        text: "Zone A gets a fifth of the traffic, matching its one server.",
+        target: "server",
+        serverId: "srv-1",
+      },
+      {
+        id: "zl-3",
+        text: "The price is cross-zone latency on most requests.",
+        target: "general",
+      },
+    ],
+    engine: "event",
+    lbMode: "active-active",
+    zones: {
+      routing: "locality-weighted",
+      clientShares: { "zone-a": 0.6, "zone-b": 0.2, "zone-c": 0.2 },
+      weights: { "zone-a": 1, "zone-b": 2, "zone-c": 2 },
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        zone: "zone-a",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        zone: "zone-b",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        zone: "zone-b",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-4",
+        name: "Server 4",
+        zone: "zone-c",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-5",
+        name: "Server 5",
+        zone: "zone-c",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        zone: "zone-a",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+      {
+        id: "lb-2",
+        name: "LB Beta",
+        zone: "zone-b",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+      {
+        id: "lb-3",
+        name: "LB Gamma",
+        zone: "zone-c",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "zone-outage",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Whole-zone outage",
+    summary: "When a zone dies, its clients and its servers have to go somewhere else.",
+    setup: [
+      "Three zones with one LB and two servers each",
+      "Clients spread evenly across zones",
+      "Spillover routing",
+      "zone-a fails at 15s and recovers at 45s; Fail zone takes down others",
+    ],
+    whatHappens: [
+      "The failed zone's LB and servers go down together",
+      "Its clients fail until heartbeats mark the LB dead, then resolve elsewhere",
+      "The surviving zones absorb the load, partly cross-zone",
+      "Once zone-a recovers, its clients and servers pick their share back up",
+    ],
+    teaches: [
+      "Plan each zone to survive losing another",
+      "Detection time is the outage clients see",
+    ],
+    narration: [
+      {
+        id: "zo-1",
+        text: "At 15s zone-a loses its LB and both servers at once.",
+        target: "lb",
+      },
+      {
+        id: "zo-2",
+        text: "The front door stops sending clients to the dead LB.",
+        target: "edge-client-lb",
+      },
+      {
+        id: "zo-3",
+        text: "Survivors take over the failed zone's share.",
+        target: "edge-lb-server",
+      },
+    ],
+    engine: "event",
+    lbMode: "active-active",
+    chaos: [
+      {
+        atMs: 15000,
+        action: { kind: "zone-status", zone: "zone-a", isUp: false },
+        label: "zone-a fails",
+      },
+      {
+        atMs: 45000,
+        action: { kind: "zone-status", zone: "zone-a", isUp: true },
+        label: "zone-a recovers",
+      },
+    ],
+    zones: {
+      routing: "spillover",
+      clientShares: { "zone-a": 1, "zone-b": 1, "zone-c": 1 },
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        zone: "zone-a",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        zone: "zone-a",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        zone: "zone-b",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-4",
+        name: "Server 4",
+        zone: "zone-b",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-5",
+        name: "Server 5",
+        zone: "zone-c",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-6",
+        name: "Server 6",
+        zone: "zone-c",
+        health: "UP",
+        baseLatencyMs: 400,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        zone: "zone-a",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+      {
+        id: "lb-2",
+        name: "LB Beta",
+        zone: "zone-b",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+      {
+        id: "lb-3",
+        name: "LB Gamma",
+        zone: "zone-c",
+        isUp: true,
+        maxConnectionsPerSecond: 200,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "lossy-link",
+    algorithmId: "round-robin",
+    workloadId: "steady",
+    name: "Lossy link",
+    summary: "Packet loss on one LB-to-server link turns into tail latency long before it turns into errors.",
+    setup: [
+      "Three equal servers behind one LB, 2ms links",
+      "The link to Server 2 drops 10% of packets and jitters by up to 30ms",
+      "Lost packets are resent after a 200ms retransmit timeout",
+    ],
+    whatHappens: [
+      "Most requests to Server 2 arrive on the first try",
+      "Every lost packet adds 200ms, so p95 climbs while errors stay near zero",
+      "Server 2's latency average creeps up though the server itself is fine",
+    ],
+    teaches: [
+      "Loss is a latency problem first",
+      "Latency measured at the LB includes the network",
+      "EWMA sees the slow link and routes around it; round robin cannot",
+    ],
+    narration: [
+      {
+        id: "ll-1",
+        text: "Every link carries 2ms each way.",
+        target: "edge-client-lb",
+      },
+      {
+        id: "ll-2",
+        text: "The link to Server 2 loses one packet in ten.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "ll-3",
+        text: "Server 2 is healthy; its latency is the wire's.",
+        target: "server",
+      },
+    ],
+    engine: "event",
+    network: {
+      defaultLink: {
+        latencyMs: 2,
+        jitterMs: 0,
+        lossRate: 0,
+        bandwidthMbps: 1000,
+      },
+      links: {
+        "lb-1-srv-2": { lossRate: 0.1, jitterMs: 30 },
+      },
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+    ],
+  },
+  {
+    id: "partial-partition",
+    algorithmId: "round-robin",
+    workloadId: "steady",
+    name: "Partial partition",
+    summary: "One LB loses its path to one server while everyone else can still reach it.",
+    setup: [
+      "Two active-active LBs in front of three servers",
+      "LB Beta cannot reach Server 3: every packet on that link is lost",
+      "LB Alpha's link to Server 3 is fine",
+    ],
+    whatHappens: [
+      "LB Beta's requests to Server 3 fail after three retransmits",
+      "Its breaker and then its probes take Server 3 out of its rotation",
+      "LB Alpha keeps using Server 3 the whole time",
+    ],
+    teaches: [
+      "Health is a property of the path, not just the server",
+      "Each LB must judge reachability for itself",
+      "Sharing one health verdict would have cost Server 3 for everyone",
+    ],
+    narration: [
+      {
+        id: "pp-1",
+        text: "Both LBs take half of the clients.",
+        target: "edge-client-lb",
+      },
+      {
+        id: "pp-2",
+        text: "The LB Beta to Server 3 link drops everything.",
+        target: "edge-lb-server",
+      },
+      {
+        id: "pp-3",
+        text: "Only LB Beta marks Server 3 down.",
+        target: "lb",
+      },
+    ],
+    engine: "event",
+    lbMode: "active-active",
+    network: {
+      defaultLink: {
+        latencyMs: 1,
+        jitterMs: 0,
+        lossRate: 0,
+        bandwidthMbps: null,
+      },
+      links: {
+        "lb-2-srv-3": { lossRate: 1 },
+      },
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 10,
+        serverQueueSize: 12,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+      {
+        id: "lb-2",
+        name: "LB Beta",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+    ],
+  },
+  {
+    id: "incident-walkthrough",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Incident walkthrough",
+    summary: "A scripted minute of things going wrong one after another, and then recovering.",
+    setup: [
+      "Active-passive LB pair in front of three servers",
+      "At 10s Server 2 slows to three times its latency",
+      "At 20s LB Alpha dies; at 30s Server 1 starts failing 20% of requests",
+      "At 40s LB Beta loses its link to Server 3; at 50s everything is repaired",
+    ],
+    whatHappens: [
+      "Least connections drains load away from the slow server",
+      "Clients fail until LB Beta is elected",
+      "Server 1's errors pass its health checks; retries hide most of them",
+      "Lost requests fail fast, so least connections feeds the cut link until the breaker opens",
+    ],
+    teaches: [
+      "Incidents overlap; each defence covers a different fault",
+      "Health checks see crashes, not errors or slowness",
+      "Watch the timeline markers against the event log",
+    ],
+    narration: [
+      {
+        id: "iw-1",
+        text: "The timeline fires one fault every ten seconds.",
+        target: "general",
+      },
+      {
+        id: "iw-2",
+        text: "LB Beta takes over when LB Alpha dies.",
+        target: "lb",
+      },
+      {
+        id: "iw-3",
+        text: "Each server fault shows up in its own way.",
+        target: "server",
+      },
+    ],
+    engine: "event",
+    retry: {
+      maxAttempts: 2,
+    },
+    chaos: [
+      {
+        atMs: 10000,
+        action: {
+          kind: "server-health",
+          serverId: "srv-2",
+          health: "SLOW",
+          slowMultiplier: 3,
+        },
+      },
+      {
+        atMs: 20000,
+        action: { kind: "lb-status", lbId: "lb-1", isUp: false },
+      },
+      {
+        atMs: 30000,
+        action: { kind: "server-error-rate", serverId: "srv-1", errorRate: 0.2 },
+      },
+      {
+        atMs: 40000,
+        action: { kind: "link", linkId: "lb-2-srv-3", link: { lossRate: 1 } },
+        label: "lb-2 cut off from srv-3",
+      },
+      {
+        atMs: 50000,
+        action: { kind: "server-health", serverId: "srv-2", health: "UP" },
+      },
+      {
+        atMs: 50000,
+        action: { kind: "server-error-rate", serverId: "srv-1", errorRate: 0 },
+      },
+      {
+        atMs: 50000,
+        action: { kind: "link", linkId: "lb-2-srv-3", link: null },
+      },
+    ],
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 150,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 8,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+      {
+        id: "lb-2",
+        name: "LB Beta",
+        isUp: true,
+        maxConnectionsPerSecond: 40,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "flash-crowd",
+    algorithmId: "least-connections",
+    workloadId: "flash-crowd",
+    name: "Flash crowd",
+    summary: "A sudden crowd lands on a quiet service and takes its time to leave.",
+    setup: [
+      "Three servers with 4 slots at 200ms, about 60 rps in total",
+      "10 rps baseline; at 20s a crowd peaks at 80 rps within 2s",
+      "The crowd thins out with a 15s time constant",
+    ],
+    whatHappens: [
+      "Server queues overflow within seconds and requests fail with 503s",
+      "Failures go on until the crowd thins below capacity, 15s after the peak",
+      "Latency is back to 200ms about half a minute after the crowd arrived",
+    ],
+    teaches: [
+      "Plan for how long a crowd stays, not just how high it peaks",
+      "Workload shapes compose: a flash crowd summed onto a constant baseline",
+    ],
+    narration: [
+      {
+        id: "fc-1",
+        text: "The crowd arrives at the front door within two seconds.",
+        target: "edge-client-lb",
+      },
+      {
+        id: "fc-2",
+        text: "Server queues overflow and the LB gets 503s back.",
+        target: "server",
+      },
+      {
+        id: "fc-3",
+        text: "The crowd thins out and latency recovers.",
+        target: "general",
+      },
+    ],
+    engine: "event",
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 4,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 120,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "trace-replay",
+    algorithmId: "round-robin",
+    workloadId: "steady",
+    name: "Replaying a recorded access log",
+    summary: "Real traffic from an access log, with its slow exports and chatty clients, replayed at twice its speed.",
+    setup: [
+      "Ten seconds of an API's access log, looped and played at 2x",
+      "Each request keeps its recorded client, path, duration and response size",
+      "Three servers with 2 slots each",
+    ],
+    whatHappens: [
+      "Arrivals come in clumps, as they do in the log, not at a steady rate",
+      "Export requests hold a slot for over a second and delay whatever queues behind them",
+      "Least connections beats round robin on average latency; EWMA chases the noisy recorded times and does worse",
+      "Two mangled rows are skipped and reported; the rest replays",
+    ],
+    teaches: [
+      "Synthetic load hides the mix that real traffic has",
+      "Replay the same trace to compare algorithms fairly",
+    ],
+    narration: [
+      {
+        id: "tr-1",
+        text: "Arrivals follow the log, not a rate.",
+        target: "edge-client-lb",
+      },
+      {
+        id: "tr-2",
+        text: "Export requests hold a slot for over a second.",
+        target: "server",
+      },
+      {
+        id: "tr-3",
+        text: "Two mangled rows were skipped when the log was read.",
+        target: "general",
+      },
+    ],
+    engine: "event",
+    trace: {
+      source: SAMPLE_ACCESS_LOG,
+      timeUnit: "s",
+      timeScale: 2,
+      loop: true,
+    },
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 10,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 10,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 10,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 60,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "round-robin",
+      },
+    ],
+  },
+  {
+    id: "closed-loop-users",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Closed loop: users who wait",
+    summary: "Forty users who each wait for their answer before thinking and asking again.",
+    setup: [
+      "40 users, one request each in flight, about 1s of think time between requests",
+      "Three servers with 4 slots at 200ms; clients give up after 5s",
+      "Servers 1 and 2 run 3x slower from 20s to 50s",
+    ],
+    whatHappens: [
+      "About 32 rps while healthy: 40 users / (0.25s response + 1s think)",
+      "When the servers slow down, throughput falls to about 24 rps on its own",
+      "Queues stay short and nothing fails; users just wait longer per request",
+      "Per-user throughput drops with response time and recovers at 50s",
+    ],
+    teaches: [
+      "A closed system throttles itself: load can never exceed the user count",
+      "Little's law: users = throughput x (response time + think time)",
+      "Compare with the open-loop twin, which keeps sending at the same rate",
+    ],
+    narration: [
+      {
+        id: "cl-1",
+        text: "Each user sends one request and waits for the answer.",
+        target: "client",
+      },
+      {
+        id: "cl-2",
+        text: "Slow servers stretch response times, so users send less often.",
+        target: "server",
+      },
+      {
+        id: "cl-3",
+        text: "Throughput follows the servers instead of piling up in queues.",
+        target: "general",
+      },
+    ],
+    engine: "event",
+    closedLoop: {
+      users: 40,
+      thinkTimeMs: 1000,
+      thinkTime: { kind: "exponential" },
+    },
+    timeouts: { clientTimeoutMs: 5000 },
+    chaos: [
+      {
+        atMs: 20000,
+        action: {
+          kind: "server-health",
+          serverId: "srv-1",
+          health: "SLOW",
+          slowMultiplier: 3,
+        },
+      },
+      {
+        atMs: 20000,
+        action: {
+          kind: "server-health",
+          serverId: "srv-2",
+          health: "SLOW",
+          slowMultiplier: 3,
+        },
+      },
+      {
+        atMs: 50000,
+        action: { kind: "server-health", serverId: "srv-1", health: "UP" },
+      },
+      {
+        atMs: 50000,
+        action: { kind: "server-health", serverId: "srv-2", health: "UP" },
+      },
+    ],
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 20,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 20,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 20,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 120,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "open-loop-twin",
+    algorithmId: "least-connections",
+    workloadId: "steady",
+    name: "Open loop: traffic that does not wait",
+    summary: "The same servers and slowdown as the closed loop, with requests arriving at a fixed 33 rps.",
+    setup: [
+      "33 rps arrive no matter how the servers are doing",
+      "Three servers with 4 slots at 200ms; clients give up after 5s",
+      "Servers 1 and 2 run 3x slower from 20s to 50s",
+    ],
+    whatHappens: [
+      "Healthy, it looks just like the closed loop",
+      "Slowed down, the servers serve about 25 rps while 33 keep arriving",
+      "Server queues fill up and about 240 requests fail with nowhere to go",
+      "Recovery only starts when the servers do",
+    ],
+    teaches: [
+      "An open system keeps sending, so overload turns into queues and failures",
+      "Benchmarks that wait for each reply (closed loop) hide this failure mode",
+    ],
+    narration: [
+      {
+        id: "ol-1",
+        text: "Requests arrive at 33 rps whatever happens.",
+        target: "edge-client-lb",
+      },
+      {
+        id: "ol-2",
+        text: "Slowed servers fall behind and their queues grow.",
+        target: "server",
+      },
+      {
+        id: "ol-3",
+        text: "Full server queues turn into failed requests.",
+        target: "general",
+      },
+    ],
+    engine: "event",
+    workload: { kind: "constant", rps: 33 },
+    timeouts: { clientTimeoutMs: 5000 },
+    chaos: [
+      {
+        atMs: 20000,
+        action: {
+          kind: "server-health",
+          serverId: "srv-1",
+          health: "SLOW",
+          slowMultiplier: 3,
+        },
+      },
+      {
+        atMs: 20000,
+        action: {
+          kind: "server-health",
+          serverId: "srv-2",
+          health: "SLOW",
+          slowMultiplier: 3,
+        },
+      },
+      {
+        atMs: 50000,
+        action: { kind: "server-health", serverId: "srv-1", health: "UP" },
+      },
+      {
+        atMs: 50000,
+        action: { kind: "server-health", serverId: "srv-2", health: "UP" },
+      },
+    ],
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 20,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 20,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 200,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 4,
+        serverQueueSize: 20,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 120,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "request-classes",
+    algorithmId: "least-connections",
+    workloadId: "mixed",
+    name: "When one connection isn't like another",
+    summary: "Cheap GETs share servers with searches 8x their cost and uploads 16x, and least connections can't tell them apart.",
+    setup: [
+      "30 rps: 80% GETs at 0.5x, 15% searches at 4x, 5% uploads at 8x a 100ms base",
+      "Three servers with 2 slots each",
+      "Latency is reported per class as well as overall",
+    ],
+    whatHappens: [
+      "Least connections sees two uploads and two GETs as the same load",
+      "A GET that lands behind an upload or a search waits for it, so GET p95 jumps from 50ms to hundreds of ms whenever that happens",
+      "Searches and uploads queue behind each other too; their p95 sits well above their own service time",
+      "Routing by work, not connections runs the same mix with least outstanding work",
+    ],
+    teaches: [
+      "Counting connections assumes every request costs the same",
+      "Class-aware routing looks at the work queued on a server, not its connection count",
+      "Break latency down by class: the overall p95 is set by the slow classes and hides how GETs fare",
+    ],
+    narration: [
+      {
+        id: "rc-1",
+        text: "Each request is drawn from the mix: GET, search or upload.",
+        target: "client",
+      },
+      {
+        id: "rc-2",
+        text: "Least connections counts requests, not the work behind them.",
+        target: "lb",
+      },
+      {
+        id: "rc-3",
+        text: "A GET stuck behind two uploads waits most of a second.",
+        target: "server",
+      },
+    ],
+    engine: "event",
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 20,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 20,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 20,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 120,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-connections",
+      },
+    ],
+  },
+  {
+    id: "request-classes-least-work",
+    algorithmId: "least-work",
+    workloadId: "mixed",
+    name: "Routing by work, not connections",
+    summary: "The same mix of GETs, searches and uploads, routed by the work queued on each server.",
+    setup: [
+      "30 rps: 80% GETs at 0.5x, 15% searches at 4x, 5% uploads at 8x a 100ms base",
+      "Three servers with 2 slots each",
+      "Latency is reported per class as well as overall",
+    ],
+    whatHappens: [
+      "Least outstanding work costs each request by its class and picks the server whose slot frees up soonest",
+      "Search and upload p95 usually end up below least connections' on the same seed",
+      "GET p95 still swings from run to run: a GET can land just before an upload takes the next slot",
+    ],
+    teaches: [
+      "Routing on cost needs the cost: here the class says what a request will take",
+      "Compare tails per class; one class's gain can hide in the overall p95",
+    ],
+    narration: [
+      {
+        id: "rcw-1",
+        text: "Each request is drawn from the mix: GET, search or upload.",
+        target: "client",
+      },
+      {
+        id: "rcw-2",
+        text: "The LB adds up the work each server has queued, class by class.",
+        target: "lb",
+      },
+      {
+        id: "rcw-3",
+        text: "A server busy with two uploads is the last place a GET goes.",
+        target: "server",
+      },
+    ],
+    engine: "event",
+    servers: [
+      {
+        id: "srv-1",
+        name: "Server 1",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 20,
+      },
+      {
+        id: "srv-2",
+        name: "Server 2",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 20,
+      },
+      {
+        id: "srv-3",
+        name: "Server 3",
+        health: "UP",
+        baseLatencyMs: 100,
+        slowMultiplier: 1.8,
+        weight: 1,
+        maxConcurrentRequests: 2,
+        serverQueueSize: 20,
+      },
+    ],
+    loadBalancers: [
+      {
+        id: "lb-1",
+        name: "LB Alpha",
+        isUp: true,
+        maxConnectionsPerSecond: 120,
+        maxConcurrentConnections: 60,
+        queueSize: 80,
+        routingAlgorithm: "least-work",
+      },
+    ],
+  },
+];
+
+export type BuildOptions = {
+  seed?: number;
+  engine?: EngineId;
+};
+
+export const buildStateFromScenario = (
+  scenario: Scenario,
+  options: BuildOptions = {}
+): SimulationState => {
+  const base = createInitialState(
+    options.seed ?? scenario.seed ?? DEFAULT_SEED
+  );
+
+  const servers: ServerState[] = scenario.servers.map((server) => ({
+    ...server,
+    baseWeight: server.weight,
+    inflight: [],
+    queue: [],
+    totalProcessed: 0,
+    totalFailed: 0,
+    ewmaLatencyMs: server.baseLatencyMs,
+    peakEwmaMs: server.baseLatencyMs,
+    peakEwmaUpdatedMs: 0,
+    lastHealthChangeMs: 0,
+    coldSinceMs: null,
+    errorRate: server.errorRate ?? 0,
+  }));
+
+  const loadBalancers: LoadBalancerState[] = scenario.loadBalancers.map((lb) => ({
+    ...lb,
+    weight: lb.weight ?? 1,
+    rrIndex: 0,
+    smoothWeights: {},
+    droppedRequests: 0,
+    queue: [],
+    activeConnections: 0,
+    nextDispatchMs: 0,
+    healthIntervalMs: base.healthCheckIntervalMs,
+    lastHealthCheckMs: base.timeMs,
+    healthSnapshot: Object.fromEntries(
+      servers.map((server) => [server.id, server.health !== "DOWN"])
+    ),
+    probes: Object.fromEntries(
+      servers.map((server) => [server.id, createProbeState(server)])
+    ),
+    breakers: Object.fromEntries(
+      servers.map((server) => [server.id, createBreakerState(base.timeMs)])
+    ),
+    lastHeartbeatMs: base.timeMs,
+    failureDetected: false,
+  }));
+
+  const retry = { ...base.retry, ...scenario.retry };
 
-  return {
-    ...base,
-    algorithmId: scenario.algorithmId,
-    workloadId: scenario.workloadId,
-    servers,
-    loadBalancers,
-    leaderLbId: loadBalancers[0]?.id ?? null,
-  };
+  return scheduleUsers(
+    scheduleChaos({
+      ...base,
+      engine: options.engine ?? scenario.engine ?? base.engine,
+      algorithmId: scenario.algorithmId,
+      workloadId: scenario.workloadId,
+      workloadShape: scenario.workload ?? getWorkload(scenario.workloadId).shape,
+      requestClasses:
+        scenario.requestClasses ?? getWorkload(scenario.workloadId).classes,
+      arrivalProcess: scenario.arrivalProcess ?? base.arrivalProcess,
+      serviceTime: scenario.serviceTime ?? base.serviceTime,
+      servers,
+      loadBalancers,
+      leaderLbId: loadBalancers[0]?.id ?? null,
+      lbMode: scenario.lbMode ?? base.lbMode,
+      frontDoorPolicy: scenario.frontDoorPolicy ?? base.frontDoorPolicy,
+      failover: { ...base.failover, ...scenario.failover },
+      healthCheck: { ...base.healthCheck, ...scenario.healthCheck },
+      circuitBreaker: { ...base.circuitBreaker, ...scenario.circuitBreaker },
+      retry,
+      retryBudget: createRetryBudgetState(retry.budget, base.timeMs),
+      timeouts: { ...base.timeouts, ...scenario.timeouts },
+      hedging: scenario.hedging ?? base.hedging,
+      clients: { ...getWorkload(scenario.workloadId).clients, ...scenario.clients },
+      affinity: { ...base.affinity, ...scenario.affinity },
+      jsqChoices: scenario.jsqChoices ?? base.jsqChoices,
+      dynamicWeights: { ...base.dynamicWeights, ...scenario.dynamicWeights },
+      slowStart: { ...base.slowStart, ...scenario.slowStart },
+      coldCache: { ...base.coldCache, ...scenario.coldCache },
+      autoscaling: { ...base.autoscaling, ...scenario.autoscaling },
+      autoscaler: createAutoscalerState(servers, base.timeMs),
+      drainTimeoutMs: scenario.drainTimeoutMs ?? base.drainTimeoutMs,
+      zones: { ...base.zones, ...scenario.zones },
+      network: { ...base.network, ...scenario.network },
+      chaos: scenario.chaos ?? base.chaos,
+      trace: scenario.trace
+        ? loadTrace(scenario.trace.source, scenario.trace)
+        : base.trace,
+      closedLoop: scenario.closedLoop ?? base.closedLoop,
+      users: scenario.closedLoop ? createUsers(scenario.closedLoop) : base.users,
+    })
+  );
 };
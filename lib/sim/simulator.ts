@@ -1,445 +1,217 @@
-import { getAlgorithm } from "./algorithms";
-import { getWorkload } from "./workloads";
+import { getWorkload, shapeRate } from "./workloads";
+import { DEFAULT_SEED, samplePoisson, seedToRngState } from "./random";
+import {
+  admitRequest,
+  applyFault,
+  cloneState,
+  createRequest,
+  pickEntryLb,
+  promoteServerQueue,
+  recordMetrics,
+  routeNextRequest,
+  scheduleEvent,
+} from "./engine";
+import { stepEventSimulation } from "./event-engine";
+import { createBreakerState } from "./circuit-breaker";
+import { createRetryBudgetState } from "./retries";
+import { expireTimedOut } from "./timeouts";
+import { armHedge, completeHedged, sendDueHedges } from "./hedging";
+import { runFailover } from "./failover";
+import { createAutoscalerState, runAutoscaler } from "./autoscaler";
+import { settleDrains } from "./draining";
+import { takeTraceArrivals } from "./traces";
+import { sendUserRequest } from "./closed-loop";
+import {
+  completeProbe,
+  createProbeState,
+  expireProbes,
+  runHealthCheck,
+} from "./health-checks";
 import type {
+  FaultAction,
   LoadBalancerState,
-  MetricsPoint,
   Request,
   ServerState,
   SimulationState,
 } from "./types";
 
-const LOG_LIMIT = 260;
-const METRICS_LIMIT = 160;
-const SAMPLE_LIMIT = 260;
-
-const cloneServer = (server: ServerState): ServerState => ({
-  ...server,
-  inflight: [...server.inflight],
-  queue: [...server.queue],
-});
-
-const cloneLb = (lb: LoadBalancerState): LoadBalancerState => ({
-  ...lb,
-  queue: [...lb.queue],
-  healthSnapshot: { ...lb.healthSnapshot },
-});
-
-const pushLog = (state: SimulationState, entry: SimulationState["log"][0]) => {
-  state.log.push(entry);
-  if (state.log.length > LOG_LIMIT) {
-    state.log.splice(0, state.log.length - LOG_LIMIT);
+// The tick engine keeps only fault, retry and user-send events in its queue.
+// Due retries and user requests are returned so they join this tick's
+// arrivals.
+const applyDueEvents = (state: SimulationState) => {
+  const requests: Request[] = [];
+  while (
+    state.eventQueue.length &&
+    state.eventQueue[0].timeMs <= state.timeMs
+  ) {
+    const event = state.eventQueue.shift();
+    if (event?.kind === "fault") {
+      applyFault(state, event.action);
+    } else if (event?.kind === "user-send") {
+      const req = sendUserRequest(state, event.userId);
+      if (req) requests.push(req);
+    } else if (event?.kind === "retry") {
+      requests.push(
+        createRequest(state, {
+          originalId: event.originalId,
+          attempt: event.attempt,
+          client: event.client,
+          attributes: event.attributes,
+        })
+      );
+    }
   }
+  return requests;
 };
 
-const pushSample = (values: number[], value: number) => {
-  values.push(value);
-  if (values.length > SAMPLE_LIMIT) {
-    values.splice(0, values.length - SAMPLE_LIMIT);
+const countArrivals = (state: SimulationState, expected: number) => {
+  if (state.arrivalProcess === "poisson") {
+    return samplePoisson(state, expected);
   }
+  const arrivals = Math.floor(state.pendingRemainder + expected);
+  state.pendingRemainder = state.pendingRemainder + expected - arrivals;
+  return arrivals;
 };
 
-const avg = (values: number[]) =>
-  values.length
-    ? values.reduce((sum, value) => sum + value, 0) / values.length
-    : 0;
-
-const p95 = (values: number[]) => {
-  if (!values.length) return 0;
-  const sorted = [...values].sort((a, b) => a - b);
-  const index = Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95));
-  return sorted[index];
-};
-
-const electLeader = (loadBalancers: LoadBalancerState[]) =>
-  loadBalancers.find((lb) => lb.isUp) ?? null;
-
-const isServerAvailable = (server: ServerState, timeMs: number) => {
-  if (server.health === "DOWN") return false;
-  if (server.circuitBreakerUntilMs > timeMs) return false;
-  const capacityOpen = server.inflight.length < server.maxConcurrentRequests;
-  const queueOpen = server.queue.length < server.serverQueueSize;
-  return capacityOpen || queueOpen;
-};
-
-const updateHealthSnapshot = (
-  lb: LoadBalancerState,
-  servers: ServerState[],
-  timeMs: number,
-  intervalMs: number,
-  recoveryDelayMs: number
+// Spends budgetMs of work on a request. Returns the time left over once it
+// completes, or null while it still runs.
+const advance = (
+  state: SimulationState,
+  server: ServerState,
+  req: Request,
+  budgetMs: number
 ) => {
-  if (timeMs - lb.lastHealthCheckMs < intervalMs) return;
-  lb.lastHealthCheckMs = timeMs;
-
-  for (const server of servers) {
-    if (server.health === "DOWN") {
-      if (timeMs - server.lastHealthChangeMs >= recoveryDelayMs) {
-        server.health = "UP";
-        server.lastHealthChangeMs = timeMs;
-      }
-    }
+  req.remainingTimeMs = (req.remainingTimeMs ?? 0) - budgetMs;
+  if (req.remainingTimeMs > 0) return null;
+  const leftMs = -req.remainingTimeMs;
+  if (req.isProbe) {
+    completeProbe(state, server, req);
+  } else {
+    completeHedged(state, server, req);
   }
-
-  lb.healthSnapshot = Object.fromEntries(
-    servers.map((server) => [
-      server.id,
-      server.health !== "DOWN" && server.circuitBreakerUntilMs <= timeMs,
-    ])
-  );
+  return leftMs;
 };
 
-const computeProcessingTime = (
-  server: ServerState,
-  alpha: number
-): number => {
-  const utilization =
-    server.maxConcurrentRequests === 0
-      ? 1
-      : server.inflight.length / server.maxConcurrentRequests;
-  const multiplier =
-    server.health === "SLOW" ? server.slowMultiplier : 1;
-  return server.baseLatencyMs * multiplier * (1 + alpha * utilization ** 2);
+// Runs a server for one tick. A slot freed mid-tick takes the next queued
+// request for the rest of the tick, so short requests are not held to one
+// per slot per tick.
+const runServer = (state: SimulationState, server: ServerState, dtMs: number) => {
+  promoteServerQueue(state, server);
+  const spareMs: number[] = [];
+  let batch = server.inflight.map((req) => ({ req, budgetMs: dtMs }));
+
+  while (batch.length) {
+    const done = new Set<Request>();
+    for (const { req, budgetMs } of batch) {
+      const leftMs = advance(state, server, req, budgetMs);
+      if (leftMs === null) continue;
+      done.add(req);
+      spareMs.push(leftMs);
+    }
+    server.inflight = server.inflight.filter((req) => !done.has(req));
+
+    spareMs.sort((a, b) => b - a);
+    batch = promoteServerQueue(state, server).map((req) => ({
+      req,
+      budgetMs: spareMs.shift() ?? 0,
+    }));
+  }
 };
 
-export const stepSimulation = (
+const stepTickSimulation = (
   prev: SimulationState,
   dtMs: number
 ): SimulationState => {
-  const state: SimulationState = {
-    ...prev,
-    timeMs: prev.timeMs + dtMs,
-    servers: prev.servers.map(cloneServer),
-    loadBalancers: prev.loadBalancers.map(cloneLb),
-    log: [...prev.log],
-    metrics: [...prev.metrics],
-    recentLatencies: [...prev.recentLatencies],
-    recentLbWaits: [...prev.recentLbWaits],
-    recentServerWaits: [...prev.recentServerWaits],
-    totals: { ...prev.totals },
-  };
+  const state = cloneState(prev);
+  state.timeMs = prev.timeMs + dtMs;
 
   for (const lb of state.loadBalancers) {
     lb.activeConnections = 0;
   }
 
-  const workload = getWorkload(state.workloadId);
-  const arrivalRate = workload.rateRps(state.timeMs);
+  const arrivalRate = shapeRate(state.workloadShape, state.timeMs);
   const expected = (arrivalRate * dtMs) / 1000;
-  const arrivals = Math.floor(state.pendingRemainder + expected);
-  state.pendingRemainder = state.pendingRemainder + expected - arrivals;
-
-  const ensureLeader = () => {
-    const current = state.loadBalancers.find((lb) => lb.id === state.leaderLbId);
-    if (current && current.isUp) return current;
-    const replacement = electLeader(state.loadBalancers);
-    state.leaderLbId = replacement?.id ?? null;
-    return replacement;
-  };
+  const arrivals =
+    state.trace || state.closedLoop ? 0 : countArrivals(state, expected);
 
-  const leader = ensureLeader();
+  const dueRequests = applyDueEvents(state);
+  runFailover(state);
 
   for (const lb of state.loadBalancers) {
-    updateHealthSnapshot(
-      lb,
-      state.servers,
-      state.timeMs,
-      state.healthCheckIntervalMs,
-      state.recoveryDelayMs
-    );
+    runHealthCheck(state, lb);
   }
 
   for (let i = 0; i < arrivals; i += 1) {
-    const requestId = state.nextRequestId++;
-    const req: Request = {
-      id: requestId,
-      arrivalTimeMs: state.timeMs,
-      lbQueueEnterMs: state.timeMs,
-      status: "arrived",
-    };
-
-    if (!leader || !leader.isUp) {
-      req.status = "failed";
-      req.failureReason = "load balancer unavailable";
-      state.totals.failed += 1;
-      pushLog(state, {
-        id: req.id,
-        timeMs: state.timeMs,
-        status: "failed",
-        message: `Request ${req.id} failed: ${req.failureReason}`,
-        lbId: leader?.id,
-      });
-      continue;
-    }
-
-    if (leader.queue.length >= leader.queueSize) {
-      leader.droppedRequests += 1;
-      state.totals.droppedLb += 1;
-      req.status = "failed";
-      req.failureReason = "lb queue full (503)";
-      pushLog(state, {
-        id: req.id,
-        timeMs: state.timeMs,
-        status: "failed",
-        message: `Request ${req.id} rejected: ${req.failureReason}`,
-        lbId: leader.id,
-      });
-      continue;
-    }
-
-    req.status = "lb-queued";
-    leader.queue.push(req);
+    const req = createRequest(state);
+    admitRequest(state, pickEntryLb(state, req), req);
+  }
+  for (const req of takeTraceArrivals(state, state.timeMs)) {
+    admitRequest(state, pickEntryLb(state, req), req);
+  }
+  for (const req of dueRequests) {
+    admitRequest(state, pickEntryLb(state, req), req);
   }
 
-  if (leader && leader.isUp) {
+  for (const lb of state.loadBalancers) {
+    if (!lb.isUp) continue;
     const maxPerTick = Math.max(
       0,
-      Math.floor((leader.maxConnectionsPerSecond * dtMs) / 1000)
+      Math.floor((lb.maxConnectionsPerSecond * dtMs) / 1000)
     );
     let routedThisTick = 0;
 
     while (
-      leader.queue.length &&
+      lb.queue.length &&
       routedThisTick < maxPerTick &&
-      leader.activeConnections < leader.maxConcurrentConnections
+      lb.activeConnections < lb.maxConcurrentConnections
     ) {
-      const req = leader.queue.shift();
-      if (!req) break;
-      req.lbQueueExitMs = state.timeMs;
-      req.lbQueueWaitMs = req.lbQueueExitMs - (req.lbQueueEnterMs ?? req.arrivalTimeMs);
-      pushSample(state.recentLbWaits, req.lbQueueWaitMs);
-
-      const algorithm = getAlgorithm(leader.routingAlgorithm ?? state.algorithmId);
-      const availableIds = state.servers
-        .filter((server) =>
-          leader.healthSnapshot[server.id] &&
-          isServerAvailable(server, state.timeMs)
-        )
-        .map((server) => server.id);
-
-      const selection = algorithm.select({
-        servers: state.servers,
-        availableIds,
-        rrIndex: state.rrIndex,
-        requestId: req.id,
-      });
-
-      if (selection.rrIndex !== undefined) {
-        state.rrIndex = selection.rrIndex;
+      const outcome = routeNextRequest(state, lb);
+      if (!outcome) break;
+      if (outcome.kind !== "failed") {
+        routedThisTick += 1;
       }
-
-      if (!selection.serverId) {
-        req.status = "failed";
-        req.failureReason = selection.reason;
-        state.totals.failed += 1;
-        pushLog(state, {
-          id: req.id,
-          timeMs: state.timeMs,
-          status: "failed",
-          message: `Request ${req.id} failed: ${req.failureReason}`,
-          lbId: leader.id,
-        });
-        continue;
-      }
-
-      const server = state.servers.find((item) => item.id === selection.serverId);
-      if (!server) {
-        req.status = "failed";
-        req.failureReason = "server not found";
-        state.totals.failed += 1;
-        pushLog(state, {
-          id: req.id,
-          timeMs: state.timeMs,
-          status: "failed",
-          message: `Request ${req.id} failed: ${req.failureReason}`,
-          lbId: leader.id,
-        });
-        continue;
-      }
-
-      if (!isServerAvailable(server, state.timeMs)) {
-        req.status = "failed";
-        req.failureReason = "server unavailable";
-        state.totals.failed += 1;
-        server.totalFailed += 1;
-        pushLog(state, {
-          id: req.id,
-          timeMs: state.timeMs,
-          status: "failed",
-          message: `Request ${req.id} failed: ${req.failureReason}`,
-          lbId: leader.id,
-          serverId: server.id,
-        });
-        continue;
-      }
-
-      req.lbId = leader.id;
-      req.serverId = server.id;
-      req.algorithmId = algorithm.id;
-      req.decisionReason = selection.reason;
-
-      leader.activeConnections += 1;
-      routedThisTick += 1;
-
-      if (server.inflight.length < server.maxConcurrentRequests) {
-        req.startProcessingMs = state.timeMs;
-        req.processingTimeMs = computeProcessingTime(server, state.ewmaAlpha);
-        req.remainingTimeMs = req.processingTimeMs;
-        req.status = "processing";
-        server.inflight.push(req);
-        state.totals.started += 1;
-        pushLog(state, {
-          id: req.id,
-          timeMs: state.timeMs,
-          status: "processing",
-          message: `Request ${req.id} -> ${server.id} (${selection.reason})`,
-          lbId: leader.id,
-          serverId: server.id,
-        });
-      } else if (server.queue.length < server.serverQueueSize) {
-        req.serverQueueEnterMs = state.timeMs;
-        req.status = "server-queued";
-        server.queue.push(req);
-        pushLog(state, {
-          id: req.id,
-          timeMs: state.timeMs,
-          status: "server-queued",
-          message: `Request ${req.id} queued on ${server.id} (${selection.reason})`,
-          lbId: leader.id,
-          serverId: server.id,
-        });
-      } else {
-        req.status = "failed";
-        req.failureReason = "server queue full (503)";
-        state.totals.failed += 1;
-        state.totals.droppedServer += 1;
-        server.totalFailed += 1;
-        server.circuitBreakerUntilMs = state.timeMs + state.recoveryDelayMs;
-        pushLog(state, {
-          id: req.id,
-          timeMs: state.timeMs,
-          status: "failed",
-          message: `Request ${req.id} failed: ${req.failureReason}`,
-          lbId: leader.id,
-          serverId: server.id,
-        });
-        leader.activeConnections = Math.max(0, leader.activeConnections - 1);
+      if (outcome.kind === "processing" || outcome.kind === "server-queued") {
+        armHedge(state, outcome.req);
       }
     }
   }
 
-  for (const server of state.servers) {
-    while (
-      server.queue.length &&
-      server.inflight.length < server.maxConcurrentRequests
-    ) {
-      const req = server.queue.shift();
-      if (!req) break;
-      req.serverQueueExitMs = state.timeMs;
-      req.serverQueueWaitMs =
-        (req.serverQueueExitMs ?? state.timeMs) -
-        (req.serverQueueEnterMs ?? state.timeMs);
-      pushSample(state.recentServerWaits, req.serverQueueWaitMs);
-
-      req.startProcessingMs = state.timeMs;
-      req.processingTimeMs = computeProcessingTime(server, state.ewmaAlpha);
-      req.remainingTimeMs = req.processingTimeMs;
-      req.status = "processing";
-      server.inflight.push(req);
-      state.totals.started += 1;
-    }
+  sendDueHedges(state);
+  // Measured after routing: tick-engine requests rarely outlive their tick.
+  runAutoscaler(state);
 
-    const stillInflight: Request[] = [];
-    for (const req of server.inflight) {
-      if (req.remainingTimeMs === undefined) {
-        req.remainingTimeMs = 0;
-      }
-      req.remainingTimeMs -= dtMs;
-      if (req.remainingTimeMs <= 0) {
-        req.endTimeMs = state.timeMs;
-        req.status = "completed";
-        req.lbQueueWaitMs =
-          (req.lbQueueExitMs ?? state.timeMs) -
-          (req.lbQueueEnterMs ?? req.arrivalTimeMs);
-        req.serverQueueWaitMs =
-          (req.serverQueueExitMs ?? state.timeMs) -
-          (req.serverQueueEnterMs ?? req.startProcessingMs ?? state.timeMs);
-        req.processingTimeMs = req.processingTimeMs ?? 0;
-        req.latencyMs = req.endTimeMs - req.arrivalTimeMs;
-
-        pushSample(state.recentLatencies, req.latencyMs);
-        pushSample(state.recentLbWaits, req.lbQueueWaitMs);
-        pushSample(state.recentServerWaits, req.serverQueueWaitMs);
-
-        server.totalProcessed += 1;
-        state.totals.completed += 1;
-        server.ewmaLatencyMs =
-          state.ewmaAlpha * (req.latencyMs ?? 0) +
-          (1 - state.ewmaAlpha) * server.ewmaLatencyMs;
-
-        const lb = state.loadBalancers.find((item) => item.id === req.lbId);
-        if (lb) {
-          lb.activeConnections = Math.max(0, lb.activeConnections - 1);
-        }
-
-        pushLog(state, {
-          id: req.id,
-          timeMs: state.timeMs,
-          status: "completed",
-          message: `Request ${req.id} completed on ${server.id} in ${Math.round(
-            req.latencyMs
-          )}ms`,
-          lbId: req.lbId,
-          serverId: server.id,
-        });
-      } else {
-        stillInflight.push(req);
-      }
-    }
-    server.inflight = stillInflight;
+  for (const server of state.servers) {
+    runServer(state, server, dtMs);
   }
 
-  const totalInflight = state.servers.reduce(
-    (sum, server) => sum + server.inflight.length,
-    0
-  );
-  const totalServerQueued = state.servers.reduce(
-    (sum, server) => sum + server.queue.length,
-    0
-  );
-  const totalLbQueued = state.loadBalancers.reduce(
-    (sum, lb) => sum + lb.queue.length,
-    0
-  );
+  expireProbes(state);
+  expireTimedOut(state);
+  settleDrains(state);
 
-  const avgLatency = avg(state.recentLatencies);
-  const p95Latency = p95(state.recentLatencies);
-  const failureTotal = state.totals.failed + state.totals.droppedLb + state.totals.droppedServer;
-  const totalProcessed = state.totals.completed + failureTotal;
-  const failureRate = totalProcessed ? (failureTotal / totalProcessed) * 100 : 0;
+  recordMetrics(state);
 
-  const point: MetricsPoint = {
-    timeMs: state.timeMs,
-    avgLatencyMs: avgLatency,
-    p95LatencyMs: p95Latency,
-    lbQueueDepth: totalLbQueued,
-    serverQueueDepth: totalServerQueued,
-    inflight: totalInflight,
-    failureRate,
-    dropsLb: state.totals.droppedLb,
-    dropsServer: state.totals.droppedServer,
-    avgLbWaitMs: avg(state.recentLbWaits),
-    avgServerWaitMs: avg(state.recentServerWaits),
-  };
+  return state;
+};
 
-  state.metrics.push(point);
-  if (state.metrics.length > METRICS_LIMIT) {
-    state.metrics.splice(0, state.metrics.length - METRICS_LIMIT);
-  }
+export const stepSimulation = (
+  prev: SimulationState,
+  dtMs: number
+): SimulationState =>
+  prev.engine === "event"
+    ? stepEventSimulation(prev, dtMs)
+    : stepTickSimulation(prev, dtMs);
 
+export const scheduleFault = (
+  prev: SimulationState,
+  timeMs: number,
+  action: FaultAction
+): SimulationState => {
+  const state = { ...prev, eventQueue: [...prev.eventQueue] };
+  scheduleEvent(state, { kind: "fault", timeMs, action });
   return state;
 };
 
-export const createInitialState = (): SimulationState => {
+export const createInitialState = (seed = DEFAULT_SEED): SimulationState => {
   const tickMs = 1000;
   const servers: ServerState[] = [
     {
@@ -449,6 +221,7 @@ export const createInitialState = (): SimulationState => {
       baseLatencyMs: 160,
       slowMultiplier: 1.8,
       weight: 1,
+      baseWeight: 1,
       maxConcurrentRequests: 12,
       serverQueueSize: 18,
       inflight: [],
@@ -456,8 +229,11 @@ export const createInitialState = (): SimulationState => {
       totalProcessed: 0,
       totalFailed: 0,
       ewmaLatencyMs: 180,
-      circuitBreakerUntilMs: 0,
+      peakEwmaMs: 180,
+      peakEwmaUpdatedMs: 0,
       lastHealthChangeMs: 0,
+      coldSinceMs: null,
+      errorRate: 0,
     },
     {
       id: "srv-2",
@@ -466,6 +242,7 @@ export const createInitialState = (): SimulationState => {
       baseLatencyMs: 190,
       slowMultiplier: 1.8,
       weight: 1,
+      baseWeight: 1,
       maxConcurrentRequests: 10,
       serverQueueSize: 16,
       inflight: [],
@@ -473,8 +250,11 @@ export const createInitialState = (): SimulationState => {
       totalProcessed: 0,
       totalFailed: 0,
       ewmaLatencyMs: 200,
-      circuitBreakerUntilMs: 0,
+      peakEwmaMs: 200,
+      peakEwmaUpdatedMs: 0,
       lastHealthChangeMs: 0,
+      coldSinceMs: null,
+      errorRate: 0,
     },
     {
       id: "srv-3",
@@ -483,6 +263,7 @@ export const createInitialState = (): SimulationState => {
       baseLatencyMs: 140,
       slowMultiplier: 1.8,
       weight: 1,
+      baseWeight: 1,
       maxConcurrentRequests: 14,
       serverQueueSize: 20,
       inflight: [],
@@ -490,8 +271,11 @@ export const createInitialState = (): SimulationState => {
       totalProcessed: 0,
       totalFailed: 0,
       ewmaLatencyMs: 170,
-      circuitBreakerUntilMs: 0,
+      peakEwmaMs: 170,
+      peakEwmaUpdatedMs: 0,
       lastHealthChangeMs: 0,
+      coldSinceMs: null,
+      errorRate: 0,
     },
   ];
 
@@ -506,29 +290,77 @@ export const createInitialState = (): SimulationState => {
       droppedRequests: 0,
       queue: [],
       activeConnections: 0,
+      nextDispatchMs: 0,
+      weight: 1,
+      rrIndex: 0,
+      smoothWeights: {},
       routingAlgorithm: "round-robin",
       healthIntervalMs: 3000,
       lastHealthCheckMs: 0,
       healthSnapshot: Object.fromEntries(
         servers.map((server) => [server.id, server.health !== "DOWN"])
       ),
+      probes: Object.fromEntries(
+        servers.map((server) => [server.id, createProbeState(server)])
+      ),
+      breakers: Object.fromEntries(
+        servers.map((server) => [server.id, createBreakerState()])
+      ),
+      lastHeartbeatMs: 0,
+      failureDetected: false,
     },
   ];
 
   return {
+    engine: "tick",
     timeMs: 0,
     tickMs,
+    eventQueue: [],
+    nextEventSeq: 0,
     nextRequestId: 1,
     pendingRemainder: 0,
+    seed,
+    rngState: seedToRngState(seed),
+    arrivalProcess: "uniform",
+    serviceTime: { kind: "deterministic" },
     recentLatencies: [],
+    recentDecisions: [],
     recentLbWaits: [],
     recentServerWaits: [],
     algorithmId: "round-robin",
     workloadId: "steady",
-    rrIndex: 0,
+    workloadShape: getWorkload("steady").shape,
+    trace: null,
+    requestClasses: [],
+    classStats: {},
+    closedLoop: null,
+    users: [],
     ewmaAlpha: 0.2,
+    jsqChoices: 3,
+    dynamicWeights: { mode: "off", minFactor: 0.1 },
+    slowStart: { windowMs: 0, mode: "connections", minFactor: 0.1 },
+    coldCache: { penaltyFactor: 1, decayMs: 10000 },
+    autoscaling: {
+      policy: { kind: "off" },
+      minServers: 1,
+      maxServers: 10,
+      evaluationIntervalMs: 5000,
+      provisioningDelayMs: 10000,
+      cooldownMs: 15000,
+    },
+    autoscaler: createAutoscalerState(servers),
     loadBalancers,
     leaderLbId: "lb-1",
+    lbMode: "active-passive",
+    frontDoorPolicy: "dns-round-robin",
+    frontDoorIndex: 0,
+    failover: {
+      heartbeatIntervalMs: 1000,
+      detectionTimeoutMs: 3000,
+      electionDelayMs: 2000,
+      orphanPolicy: "lost",
+    },
+    electionStartedMs: null,
     servers,
     log: [],
     metrics: [],
@@ -538,8 +370,83 @@ export const createInitialState = (): SimulationState => {
       started: 0,
       droppedLb: 0,
       droppedServer: 0,
+      retries: 0,
+      retriesDenied: 0,
+      timedOut: 0,
+      wastedRequests: 0,
+      wastedWorkMs: 0,
+      hedges: 0,
+      hedgeWins: 0,
+      hedgeExtraWorkMs: 0,
+      affinityFallbacks: 0,
+      crossZone: 0,
     },
     healthCheckIntervalMs: 3000,
+    healthCheck: {
+      timeoutMs: 1000,
+      riseThreshold: 2,
+      fallThreshold: 3,
+      probeCostMs: 10,
+      slowThresholdMs: null,
+    },
+    nextProbeId: 1,
+    circuitBreaker: {
+      consecutiveFailures: 5,
+      errorRateThreshold: 0.5,
+      slowCallThresholdMs: null,
+      slowCallRateThreshold: null,
+      windowSize: 20,
+      minimumCalls: 10,
+      openDurationMs: 5000,
+      halfOpenMaxCalls: 3,
+    },
+    retry: {
+      maxAttempts: 1,
+      baseBackoffMs: 100,
+      maxBackoffMs: 2000,
+      multiplier: 2,
+      jitter: "full",
+      budget: { kind: "unlimited" },
+    },
+    retryBudget: createRetryBudgetState({ kind: "unlimited" }),
+    timeouts: {
+      clientTimeoutMs: null,
+      lbUpstreamTimeoutMs: null,
+      serverDeadlineChecks: false,
+      abortInflight: false,
+    },
+    hedging: {
+      delay: { kind: "off" },
+      cancelLoser: false,
+    },
+    clients: getWorkload("steady").clients,
+    affinity: {
+      mode: "none",
+      cookieTtlMs: 30000,
+      fallback: "reroute",
+    },
+    sessions: {},
     recoveryDelayMs: 8000,
+    drainTimeoutMs: 10000,
+    zones: {
+      routing: "off",
+      interZoneRttMs: 30,
+      clientShares: {},
+      weights: {},
+    },
+    network: {
+      defaultLink: {
+        latencyMs: 0,
+        jitterMs: 0,
+        lossRate: 0,
+        bandwidthMbps: null,
+      },
+      links: {},
+      requestBytes: 2000,
+      responseBytes: 20000,
+      retransmitTimeoutMs: 200,
+      maxRetransmits: 3,
+    },
+    chaos: [],
   };
 };
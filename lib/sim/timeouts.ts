@@ -0,0 +1,72 @@
+import { recordBreakerOutcome } from "./circuit-breaker";
+import { recordWeightFeedback } from "./dynamic-weights";
+import { failRequest } from "./engine";
+import { clientDeadlineMs } from "./network";
+import type { Request, ServerState, SimulationState } from "./types";
+
+// The LB deadline only exists once a request was dispatched; whichever
+// deadline is earlier decides who gave up.
+const expiredReason = (state: SimulationState, req: Request) => {
+  if (req.isProbe || req.hedgeLost || req.status === "failed") return null;
+  const client = clientDeadlineMs(req) ?? Infinity;
+  const upstream = req.upstreamDeadlineMs ?? Infinity;
+  if (Math.min(client, upstream) > state.timeMs) return null;
+  return upstream < client ? "lb upstream timeout (504)" : "client timeout";
+};
+
+const timeOut = (state: SimulationState, req: Request, reason: string) => {
+  const lb = state.loadBalancers.find((item) => item.id === req.lbId);
+  if (lb && req.serverId) {
+    lb.activeConnections = Math.max(0, lb.activeConnections - 1);
+    recordBreakerOutcome(state, lb.id, req.serverId, req, "failed");
+  }
+  const server = state.servers.find((item) => item.id === req.serverId);
+  if (server) {
+    recordWeightFeedback(state, server, "failed");
+  }
+  const settled = failRequest(state, req, reason, {
+    lbId: req.lbId,
+    serverId: req.serverId,
+    logStatus: "timeout",
+  });
+  if (settled) {
+    state.totals.timedOut += 1;
+  }
+};
+
+// Fails every request whose deadline has passed. Queued work is cancelled
+// outright; in-flight work is aborted only when configured, otherwise the
+// server finishes it for nobody. Returns the servers that got slots back.
+export const expireTimedOut = (state: SimulationState) => {
+  const freed: ServerState[] = [];
+
+  for (const lb of state.loadBalancers) {
+    lb.queue = lb.queue.filter((req) => {
+      const reason = expiredReason(state, req);
+      if (reason) timeOut(state, req, reason);
+      return !reason;
+    });
+  }
+
+  for (const server of state.servers) {
+    server.queue = server.queue.filter((req) => {
+      const reason = expiredReason(state, req);
+      if (reason) timeOut(state, req, reason);
+      return !reason;
+    });
+
+    server.inflight = server.inflight.filter((req) => {
+      const reason = expiredReason(state, req);
+      if (!reason) return true;
+      timeOut(state, req, reason);
+      if (!state.timeouts.abortInflight) return true;
+      state.totals.wastedRequests += 1;
+      state.totals.wastedWorkMs +=
+        state.timeMs - (req.startProcessingMs ?? state.timeMs);
+      if (!freed.includes(server)) freed.push(server);
+      return false;
+    });
+  }
+
+  return freed;
+};
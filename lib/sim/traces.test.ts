@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { createTraceReplay, parseTrace } from "./traces";
+
+describe("parseTrace", () => {
+  it("skips malformed CSV rows and reports them by line", () => {
+    const { records, issues } = parseTrace(
+      [
+        "timestamp,client_ip,path,duration_ms,bytes,class",
+        "1000.5,10.0.0.1,/a,80,500,get",
+        "soon,10.0.0.2,/b,80,500,get",
+        "1000.2,10.0.0.3,/c,-5,500,get",
+        "1000.9,10.0.0.4,/d,80,lots,get",
+        "1000.0,10.0.0.5,/e,,,search",
+      ].join("\n"),
+      { timeUnit: "s" }
+    );
+    expect(issues).toEqual([
+      { row: 3, reason: "unreadable timestamp" },
+      { row: 4, reason: "bad service time" },
+      { row: 5, reason: "bad size" },
+    ]);
+    expect(records).toEqual([
+      {
+        atMs: 0,
+        clientKey: "10.0.0.5",
+        attributes: { path: "/e", classId: "search" },
+      },
+      {
+        atMs: 500,
+        clientKey: "10.0.0.1",
+        attributes: {
+          path: "/a",
+          classId: "get",
+          serviceTimeMs: 80,
+          sizeBytes: 500,
+        },
+      },
+    ]);
+  });
+
+  it("reports JSON lines that are not objects", () => {
+    const { records, issues } = parseTrace(
+      ['{"ts": 10}', "[1, 2]", "not json", '{"ts": 25}'].join("\n")
+    );
+    expect(records.map((record) => record.atMs)).toEqual([0, 15]);
+    expect(issues).toEqual([
+      { row: 2, reason: "not a JSON object" },
+      { row: 3, reason: "not a JSON object" },
+    ]);
+  });
+
+  it("reads a pretty-printed object as one record", () => {
+    const { records, issues } = parseTrace(
+      JSON.stringify({ timestamp: 5, path: "/a" }, null, 2)
+    );
+    expect(issues).toEqual([]);
+    expect(records).toEqual([{ atMs: 0, attributes: { path: "/a" } }]);
+  });
+
+  it("reports array items that are not objects", () => {
+    const { records, issues } = parseTrace('[{"ts": 1}, 7, {"at": "x"}]');
+    expect(records).toHaveLength(1);
+    expect(issues).toEqual([
+      { row: 2, reason: "not an object" },
+      { row: 3, reason: "unreadable timestamp" },
+    ]);
+  });
+});
+
+describe("createTraceReplay", () => {
+  it("loops one average gap after the last row", () => {
+    const { records } = parseTrace("ts\n0\n100\n200\n");
+    expect(createTraceReplay(records).durationMs).toBe(300);
+  });
+
+  it("repeats rows that share one timestamp once a second", () => {
+    const { records } = parseTrace("ts\n50\n50\n50\n");
+    expect(createTraceReplay(records).durationMs).toBe(1000);
+  });
+});
@@ -0,0 +1,360 @@
+import { createRequest } from "./engine";
+import { clientZone } from "./zones";
+import type {
+  Request,
+  RequestAttributes,
+  SimulationState,
+  TraceIssue,
+  TraceRecord,
+  TraceReplay,
+} from "./types";
+
+export type TraceFormat = "json" | "csv";
+
+export type TraceParseOptions = {
+  format?: TraceFormat;
+  // Unit of numeric timestamps; date strings are always understood. Left
+  // out, epoch seconds are recognised by their size and anything else is ms.
+  timeUnit?: "ms" | "s";
+};
+
+export type ReplayOptions = {
+  timeScale?: number;
+  loop?: boolean;
+};
+
+// Column names seen in access logs, compared without case or punctuation.
+const FIELD_ALIASES = {
+  time: ["timestamp", "time", "ts", "atms", "at", "date"],
+  client: [
+    "clientkey",
+    "client",
+    "clientid",
+    "clientip",
+    "ip",
+    "sourceip",
+    "remoteaddr",
+    "user",
+  ],
+  path: ["path", "route", "url", "endpoint"],
+  class: ["class", "classid", "requestclass"],
+  serviceTime: [
+    "servicetimems",
+    "servicetime",
+    "durationms",
+    "duration",
+    "latencyms",
+    "responsetimems",
+  ],
+  size: ["sizebytes", "size", "bytes", "responsebytes", "bodybytes"],
+};
+
+type Field = keyof typeof FIELD_ALIASES;
+type RawRow = { row: number; values: Record<string, unknown> };
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const pick = (values: Record<string, unknown>, field: Field) => {
+  for (const alias of FIELD_ALIASES[field]) {
+    const value = values[alias];
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return undefined;
+};
+
+// Splits one CSV line, honouring double quotes around fields with commas.
+const splitCsvLine = (line: string) => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const readCsv = (text: string): RawRow[] => {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim());
+  if (headerIndex < 0) return [];
+  const header = splitCsvLine(lines[headerIndex]).map(normalizeKey);
+  const rows: RawRow[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i += 1) {
+    if (!lines[i].trim()) continue;
+    const cells = splitCsvLine(lines[i]);
+    rows.push({
+      row: i + 1,
+      values: Object.fromEntries(header.map((key, index) => [key, cells[index]])),
+    });
+  }
+  return rows;
+};
+
+const normalizeObject = (value: unknown) =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [normalizeKey(key), item])
+      )
+    : null;
+
+// Accepts a JSON array, an object with a records array, a single object, or
+// one JSON object per line. Rows that are not objects are reported rather
+// than thrown on.
+const readJson = (text: string, issues: TraceIssue[]): RawRow[] => {
+  let items: unknown[] | null = null;
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (Array.isArray(parsed)) {
+      items = parsed;
+    } else if (
+      parsed &&
+      typeof parsed === "object" &&
+      Array.isArray((parsed as { records?: unknown }).records)
+    ) {
+      items = (parsed as { records: unknown[] }).records;
+    } else if (parsed && typeof parsed === "object") {
+      items = [parsed];
+    }
+  } catch {
+    items = null;
+  }
+
+  const rows: RawRow[] = [];
+  if (items) {
+    items.forEach((item, index) => {
+      const values = normalizeObject(item);
+      if (values) {
+        rows.push({ row: index + 1, values });
+      } else {
+        issues.push({ row: index + 1, reason: "not an object" });
+      }
+    });
+    return rows;
+  }
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      const values = normalizeObject(JSON.parse(line));
+      if (values) {
+        rows.push({ row: index + 1, values });
+        return;
+      }
+    } catch {
+      // Reported below like any other unreadable row.
+    }
+    issues.push({ row: index + 1, reason: "not a JSON object" });
+  });
+  return rows;
+};
+
+const readNumber = (value: unknown) => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") return Number(value);
+  return Number.NaN;
+};
+
+const readTimestamp = (value: unknown, timeUnit: "ms" | "s") => {
+  const numeric = readNumber(value);
+  if (Number.isFinite(numeric)) return numeric * (timeUnit === "s" ? 1000 : 1);
+  return typeof value === "string" ? Date.parse(value) : Number.NaN;
+};
+
+const guessTimeUnit = (rows: RawRow[]): "ms" | "s" => {
+  for (const raw of rows) {
+    const value = readNumber(pick(raw.values, "time"));
+    if (Number.isFinite(value)) return value >= 1e9 && value < 1e11 ? "s" : "ms";
+  }
+  return "ms";
+};
+
+// A row is kept only when its timestamp reads and its optional numbers, if
+// present, are non-negative.
+const toRecord = (
+  raw: RawRow,
+  timeUnit: "ms" | "s",
+  issues: TraceIssue[]
+): (TraceRecord & { timeMs: number }) | null => {
+  const timeValue = pick(raw.values, "time");
+  const timeMs = readTimestamp(timeValue, timeUnit);
+  if (timeValue === undefined || !Number.isFinite(timeMs)) {
+    issues.push({ row: raw.row, reason: "unreadable timestamp" });
+    return null;
+  }
+
+  const attributes: RequestAttributes = {};
+  const serviceValue = pick(raw.values, "serviceTime");
+  if (serviceValue !== undefined) {
+    const serviceTimeMs = readNumber(serviceValue);
+    if (!Number.isFinite(serviceTimeMs) || serviceTimeMs < 0) {
+      issues.push({ row: raw.row, reason: "bad service time" });
+      return null;
+    }
+    attributes.serviceTimeMs = serviceTimeMs;
+  }
+  const sizeValue = pick(raw.values, "size");
+  if (sizeValue !== undefined) {
+    const sizeBytes = readNumber(sizeValue);
+    if (!Number.isFinite(sizeBytes) || sizeBytes < 0) {
+      issues.push({ row: raw.row, reason: "bad size" });
+      return null;
+    }
+    attributes.sizeBytes = sizeBytes;
+  }
+  const path = pick(raw.values, "path");
+  if (path !== undefined) attributes.path = String(path);
+  const classId = pick(raw.values, "class");
+  if (classId !== undefined) attributes.classId = String(classId);
+
+  const client = pick(raw.values, "client");
+  return {
+    timeMs,
+    atMs: 0,
+    clientKey: client === undefined ? undefined : String(client),
+    attributes,
+  };
+};
+
+// Reads a recorded access log. Malformed rows are skipped and listed in
+// issues; timestamps are rebased so the first request lands at 0.
+export const parseTrace = (
+  text: string,
+  options: TraceParseOptions = {}
+): { records: TraceRecord[]; issues: TraceIssue[] } => {
+  const issues: TraceIssue[] = [];
+  const trimmed = text.trim();
+  const format =
+    options.format ??
+    (trimmed.startsWith("[") || trimmed.startsWith("{") ? "json" : "csv");
+  const rows = format === "json" ? readJson(trimmed, issues) : readCsv(text);
+  const timeUnit = options.timeUnit ?? guessTimeUnit(rows);
+  const timed = rows
+    .map((raw) => toRecord(raw, timeUnit, issues))
+    .filter((record): record is TraceRecord & { timeMs: number } =>
+      Boolean(record)
+    );
+  const startMs = timed.reduce(
+    (min, record) => Math.min(min, record.timeMs),
+    Infinity
+  );
+  const records = timed
+    .map(({ timeMs, ...record }) => ({ ...record, atMs: timeMs - startMs }))
+    .sort((a, b) => a.atMs - b.atMs);
+  issues.sort((a, b) => a.row - b.row);
+  return { records, issues };
+};
+
+// A loop restarts one average gap after the last row, so the seam looks
+// like the rest of the trace. Rows that all share one timestamp have no gap
+// to go by and repeat once a second.
+export const createTraceReplay = (
+  records: TraceRecord[],
+  skipped: TraceIssue[] = [],
+  options: ReplayOptions = {}
+): TraceReplay => {
+  const lastMs = records.length ? records[records.length - 1].atMs : 0;
+  const averageGapMs = lastMs > 0 ? lastMs / (records.length - 1) : 1000;
+  return {
+    records,
+    skipped,
+    durationMs: lastMs + averageGapMs,
+    timeScale: options.timeScale && options.timeScale > 0 ? options.timeScale : 1,
+    loop: options.loop ?? false,
+    cursor: 0,
+    lap: 0,
+  };
+};
+
+export const loadTrace = (
+  text: string,
+  options: TraceParseOptions & ReplayOptions = {}
+) => {
+  const { records, issues } = parseTrace(text, options);
+  return createTraceReplay(records, issues, options);
+};
+
+// Replays a trace in place of the workload. The trace's clock runs with the
+// simulation's, so load it into a fresh state.
+export const replayTrace = (
+  state: SimulationState,
+  text: string,
+  options: TraceParseOptions & ReplayOptions = {}
+): SimulationState => ({ ...state, trace: loadTrace(text, options) });
+
+// When the next recorded request arrives, or null once a trace that does not
+// loop has run out.
+export const nextTraceArrivalMs = (trace: TraceReplay) => {
+  const record = trace.records[trace.cursor];
+  if (!record) return null;
+  return (trace.lap * trace.durationMs + record.atMs) / trace.timeScale;
+};
+
+// A row naming a class in the workload's mix costs what the class costs.
+// Whatever the row recorded itself wins, and a recorded service time already
+// includes the class, so the multiplier is left off.
+const withClass = (
+  state: SimulationState,
+  attributes: RequestAttributes
+): RequestAttributes => {
+  const known = state.requestClasses.find(
+    (item) => item.id === attributes.classId
+  );
+  if (!known) return attributes;
+  return {
+    ...attributes,
+    serviceMultiplier:
+      attributes.serviceTimeMs === undefined
+        ? known.serviceMultiplier
+        : undefined,
+    requestBytes: attributes.requestBytes ?? known.requestBytes,
+    sizeBytes: attributes.sizeBytes ?? known.responseBytes,
+  };
+};
+
+// Turns every record due by timeMs into a request, advancing the cursor.
+export const takeTraceArrivals = (state: SimulationState, timeMs: number) => {
+  const trace = state.trace;
+  const arrivals: Request[] = [];
+  if (!trace) return arrivals;
+  for (;;) {
+    const atMs = nextTraceArrivalMs(trace);
+    if (atMs === null || atMs > timeMs) break;
+    const record = trace.records[trace.cursor];
+    trace.cursor += 1;
+    if (trace.loop && trace.cursor >= trace.records.length) {
+      trace.cursor = 0;
+      trace.lap += 1;
+    }
+    arrivals.push(
+      createRequest(state, {
+        client: record.clientKey
+          ? {
+              clientId: record.clientKey,
+              sourceIp: record.clientKey,
+              zone: clientZone(state, record.clientKey),
+            }
+          : undefined,
+        attributes: withClass(state, record.attributes),
+      })
+    );
+  }
+  return arrivals;
+};
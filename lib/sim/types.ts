@@ -2,9 +2,234 @@ export type AlgorithmId =
   | "round-robin"
   | "least-connections"
   | "weighted-round-robin"
+  | "smooth-weighted-round-robin"
   | "ewma"
-  | "p2c";
-export type WorkloadId = "steady" | "burst";
+  | "p2c"
+  | "ring-hash"
+  | "maglev"
+  | "rendezvous"
+  | "weighted-least-connections"
+  | "least-response-time"
+  | "peak-ewma"
+  | "random"
+  | "jsq"
+  | "least-work";
+export type WorkloadId =
+  | "steady"
+  | "burst"
+  | "surge"
+  | "ramp"
+  | "diurnal"
+  | "flash-crowd"
+  | "mixed";
+
+// Arrival rate in requests per second as a function of time. spike and
+// flash-crowd are meant to be summed onto a baseline. A sequence gives each
+// part its own clock from zero and holds the last part unless it loops.
+export type WorkloadShape =
+  | { kind: "constant"; rps: number }
+  | { kind: "ramp"; fromRps: number; toRps: number; durationMs: number }
+  | { kind: "step"; steps: { atMs: number; rps: number }[] }
+  | {
+      kind: "sine";
+      baseRps: number;
+      amplitudeRps: number;
+      periodMs: number;
+      peakAtMs?: number;
+    }
+  | {
+      kind: "spike";
+      rps: number;
+      atMs: number;
+      durationMs: number;
+      everyMs?: number;
+    }
+  | {
+      kind: "flash-crowd";
+      peakRps: number;
+      atMs: number;
+      riseMs: number;
+      decayMs: number;
+    }
+  | { kind: "sum"; parts: WorkloadShape[] }
+  | {
+      kind: "sequence";
+      parts: { durationMs: number; shape: WorkloadShape }[];
+      loop?: boolean;
+    };
+
+export type EngineId = "tick" | "event";
+
+export type LbMode = "active-passive" | "active-active";
+
+export type FrontDoorId = "dns-round-robin" | "anycast-hash" | "weighted";
+
+export type OrphanPolicy = "lost" | "reset" | "migrated";
+
+export type FailoverConfig = {
+  heartbeatIntervalMs: number;
+  detectionTimeoutMs: number;
+  electionDelayMs: number;
+  orphanPolicy: OrphanPolicy;
+};
+
+export type JitterMode = "none" | "full" | "equal";
+
+export type RetryBudget =
+  | { kind: "unlimited" }
+  | { kind: "token-bucket"; capacity: number; refillPerSecond: number }
+  | { kind: "ratio"; ratio: number; minPerSecond: number };
+
+// maxAttempts counts the first try, so 1 disables retries.
+export type RetryConfig = {
+  maxAttempts: number;
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+  multiplier: number;
+  jitter: JitterMode;
+  budget: RetryBudget;
+};
+
+export type RetryBudgetState = {
+  tokens: number;
+  updatedMs: number;
+};
+
+// Null disables a timeout. Timeouts always cancel queued work; in-flight
+// work keeps running (and is wasted) unless abortInflight is set.
+export type TimeoutConfig = {
+  clientTimeoutMs: number | null;
+  lbUpstreamTimeoutMs: number | null;
+  serverDeadlineChecks: boolean;
+  abortInflight: boolean;
+};
+
+export type HedgeDelay =
+  | { kind: "off" }
+  | { kind: "fixed"; delayMs: number }
+  | { kind: "p95" };
+
+// Hedging happens at the LB: a request still unanswered after the delay is
+// duplicated to another server and the first response wins.
+export type HedgeConfig = {
+  delay: HedgeDelay;
+  cancelLoser: boolean;
+};
+
+export type ClientIdentity = {
+  clientId: string;
+  sourceIp: string;
+  zone?: string;
+};
+
+// Several clients can share a source IP, as they would behind a NAT.
+// zipfExponent 0 spreads traffic evenly; larger values create heavy users.
+export type ClientPopulation = {
+  count: number;
+  sourceIps: number;
+  zipfExponent: number;
+};
+
+// prefer-local: stay in the LB's zone while it has a healthy server, even a
+// full one. spillover: leave the zone only when local capacity runs out.
+// locality-weighted: pick a zone by weight scaled by its health, Envoy-style.
+export type ZoneRoutingMode =
+  | "off"
+  | "prefer-local"
+  | "spillover"
+  | "locality-weighted";
+
+// clientShares splits clients across zones (empty leaves them zoneless);
+// zones missing from weights weigh 1. Each cross-zone hop adds
+// interZoneRttMs to the request's latency.
+export type ZoneConfig = {
+  routing: ZoneRoutingMode;
+  interZoneRttMs: number;
+  clientShares: Record<string, number>;
+  weights: Record<string, number>;
+};
+
+// One-way figures, used in both directions. A null bandwidth never limits;
+// lossRate applies to every transmission, so 1 partitions the link.
+export type LinkConfig = {
+  latencyMs: number;
+  jitterMs: number;
+  lossRate: number;
+  bandwidthMbps: number | null;
+};
+
+// links overrides defaultLink per link id: "client-lb-1" for clients to an
+// LB, "lb-1-srv-2" for an LB to a server. A lost transmission is resent
+// after retransmitTimeoutMs, up to maxRetransmits times.
+export type NetworkConfig = {
+  defaultLink: LinkConfig;
+  links: Record<string, Partial<LinkConfig>>;
+  requestBytes: number;
+  responseBytes: number;
+  retransmitTimeoutMs: number;
+  maxRetransmits: number;
+};
+
+// One row of a recorded access log; atMs counts from the first row.
+export type TraceRecord = {
+  atMs: number;
+  clientKey?: string;
+  attributes: RequestAttributes;
+};
+
+export type TraceIssue = { row: number; reason: string };
+
+// A recording replayed as the arrival process. timeScale 2 plays it twice as
+// fast; a looping trace starts over durationMs after its first row.
+export type TraceReplay = {
+  records: TraceRecord[];
+  skipped: TraceIssue[];
+  durationMs: number;
+  timeScale: number;
+  loop: boolean;
+  cursor: number;
+  lap: number;
+};
+
+// Closed-loop users each keep one request outstanding: send, wait for the
+// answer or the client timeout, think, send again. Think times are drawn
+// from thinkTime around a mean of thinkTimeMs.
+export type ClosedLoopConfig = {
+  users: number;
+  thinkTimeMs: number;
+  thinkTime: ServiceTimeDistribution;
+};
+
+export type VirtualUser = {
+  id: string;
+  // Id of the request the user is waiting on; null while thinking.
+  waitingOn: number | null;
+  sentAtMs: number;
+  completed: number;
+  failed: number;
+  totalResponseMs: number;
+};
+
+export type AffinityMode = "none" | "source-ip" | "cookie";
+
+export type AffinityConfig = {
+  mode: AffinityMode;
+  cookieTtlMs: number;
+  fallback: "reroute" | "fail";
+};
+
+export type StickySession = {
+  serverId: string;
+  expiresMs: number;
+};
+
+export type ArrivalProcess = "uniform" | "poisson";
+
+export type ServiceTimeDistribution =
+  | { kind: "deterministic" }
+  | { kind: "exponential" }
+  | { kind: "lognormal"; sigma: number }
+  | { kind: "pareto"; alpha: number };
 
 export type RequestStatus =
   | "arrived"
@@ -14,11 +239,103 @@ export type RequestStatus =
   | "completed"
   | "failed";
 
-export type ServerHealth = "UP" | "SLOW" | "DOWN";
+// DRAINING servers take no new requests and are removed once empty or at
+// the drain timeout, whichever comes first.
+export type ServerHealth = "UP" | "SLOW" | "DOWN" | "DRAINING";
+
+export type LogStatus =
+  | RequestStatus
+  | "fault"
+  | "lb-failover"
+  | "lb-lost"
+  | "lb-reset"
+  | "lb-migrated"
+  | "health-check"
+  | "circuit-breaker"
+  | "retry"
+  | "timeout"
+  | "wasted"
+  | "hedge"
+  | "affinity"
+  | "autoscale"
+  | "drain";
+
+export type CandidateExclusion =
+  | "unhealthy"
+  | "circuit-open"
+  | "capacity"
+  | "slow-start"
+  | "draining"
+  | "other-zone"
+  | "hedge-origin";
+
+// One server as the LB saw it when routing a request. score is whatever the
+// algorithm compared (see RoutingDecision.scoreLabel); it is missing when the
+// algorithm does not score servers or did not sample this one.
+export type CandidateScore = {
+  serverId: string;
+  inflight: number;
+  queued: number;
+  ewmaLatencyMs: number;
+  score?: number;
+  excluded?: CandidateExclusion;
+  chosen: boolean;
+};
+
+export type RoutingDecision = {
+  requestId: number;
+  timeMs: number;
+  lbId: string;
+  algorithmId: AlgorithmId;
+  reason: string;
+  scoreLabel?: string;
+  candidates: CandidateScore[];
+};
+
+// What a request asks of the server beyond the defaults, as recorded in a
+// trace or drawn from the workload's classes. A recorded service time
+// replaces the server's base latency; a class multiplier scales either.
+export type RequestAttributes = {
+  path?: string;
+  classId?: string;
+  serviceMultiplier?: number;
+  serviceTimeMs?: number;
+  requestBytes?: number;
+  sizeBytes?: number;
+};
+
+// One kind of request in a workload's mix, drawn in proportion to share.
+// Byte counts left out fall back to the network defaults.
+export type RequestClass = {
+  id: string;
+  name: string;
+  share: number;
+  serviceMultiplier: number;
+  requestBytes?: number;
+  responseBytes?: number;
+};
+
+// failed counts every attempt of the class that did not complete.
+export type ClassStats = {
+  completed: number;
+  failed: number;
+  recentLatencies: number[];
+};
 
 export type Request = {
   id: number;
+  isProbe?: boolean;
+  originalId?: number;
+  attempt?: number;
+  client?: ClientIdentity;
+  attributes?: RequestAttributes;
   arrivalTimeMs: number;
+  deadlineMs?: number;
+  upstreamDeadlineMs?: number;
+  hedgeAtMs?: number;
+  hedgeOf?: number;
+  hedgeId?: number;
+  hedgeLost?: boolean;
   lbQueueEnterMs?: number;
   lbQueueExitMs?: number;
   serverQueueEnterMs?: number;
@@ -31,21 +348,30 @@ export type Request = {
   lbId?: string;
   algorithmId?: AlgorithmId;
   decisionReason?: string;
+  decision?: RoutingDecision;
   status: RequestStatus;
   failureReason?: string;
   latencyMs?: number;
   lbQueueWaitMs?: number;
   serverQueueWaitMs?: number;
   processingTimeMs?: number;
+  // Client-to-LB transit, kept apart so a reroute or hedge can reuse it.
+  uplinkMs?: number;
+  // Time on the wire and crossing zones, added to latencyMs on completion.
+  networkMs?: number;
+  breakerTrial?: boolean;
 };
 
 export type ServerState = {
   id: string;
   name: string;
+  zone?: string;
   health: ServerHealth;
   baseLatencyMs: number;
   slowMultiplier: number;
   weight: number;
+  // Configured weight; weight itself may be adjusted by dynamic weighting.
+  baseWeight: number;
   maxConcurrentRequests: number;
   serverQueueSize: number;
   inflight: Request[];
@@ -53,13 +379,137 @@ export type ServerState = {
   totalProcessed: number;
   totalFailed: number;
   ewmaLatencyMs: number;
-  circuitBreakerUntilMs: number;
+  peakEwmaMs: number;
+  peakEwmaUpdatedMs: number;
   lastHealthChangeMs: number;
+  // Set when the server comes back (or joins) with an empty cache.
+  coldSinceMs: number | null;
+  // Share of processed requests that come back as a 500.
+  errorRate: number;
+};
+
+export type DynamicWeightMode = "off" | "latency" | "errors";
+
+// latency: weight follows the fastest EWMA relative to this server's.
+// errors: failures cut weight, successes slowly restore it (nginx-style).
+// Weights never fall below minFactor x the configured weight.
+export type DynamicWeightConfig = {
+  mode: DynamicWeightMode;
+  minFactor: number;
+};
+
+// Ramps a recovered server from minFactor to full over windowMs, either by
+// scaling its weight or by capping its concurrent requests. 0 turns it off.
+export type SlowStartMode = "weight" | "connections";
+
+export type SlowStartConfig = {
+  windowMs: number;
+  mode: SlowStartMode;
+  minFactor: number;
+};
+
+// A cold server is penaltyFactor times slower at first, decaying toward
+// normal with time constant decayMs. A factor of 1 turns it off.
+export type ColdCacheConfig = {
+  penaltyFactor: number;
+  decayMs: number;
+};
+
+// Utilization is in [0, 1]. cpu averages each server's busy share of its
+// slots; inflight also counts queued work, so it can exceed 1.
+export type ScalingMetric = "cpu" | "inflight";
+
+// Matches when lower <= utilization < upper (null = no upper bound).
+export type ScalingStep = {
+  lower: number;
+  upper: number | null;
+  adjust: number;
+};
+
+export type ScheduledCapacity = {
+  atMs: number;
+  desired: number;
+};
+
+export type ScalingPolicy =
+  | { kind: "off" }
+  | { kind: "target-tracking"; metric: ScalingMetric; target: number }
+  | { kind: "step"; metric: ScalingMetric; steps: ScalingStep[] }
+  | { kind: "scheduled"; schedule: ScheduledCapacity[] };
+
+// New servers copy the first server's settings. The cooldown only holds back
+// metric-driven policies; scheduled changes happen on time.
+export type AutoscalerConfig = {
+  policy: ScalingPolicy;
+  minServers: number;
+  maxServers: number;
+  evaluationIntervalMs: number;
+  provisioningDelayMs: number;
+  cooldownMs: number;
+};
+
+export type PendingLaunch = {
+  serverId: string;
+  readyAtMs: number;
+};
+
+export type AutoscalerState = {
+  lastEvaluationMs: number;
+  lastScaleMs: number | null;
+  pending: PendingLaunch[];
+  nextServerNumber: number;
+};
+
+export type HealthCheckConfig = {
+  timeoutMs: number;
+  riseThreshold: number;
+  fallThreshold: number;
+  probeCostMs: number;
+  slowThresholdMs: number | null;
+};
+
+export type ProbeState = {
+  healthy: boolean;
+  observed: ServerHealth;
+  consecutiveSuccesses: number;
+  consecutiveFailures: number;
+  pendingProbeId: number | null;
+  pendingDeadlineMs: number;
+  lastLatencyMs: number | null;
+  // When this LB last marked the server healthy again; drives slow start.
+  healthySinceMs: number | null;
+};
+
+export type BreakerStatus = "closed" | "open" | "half-open";
+
+// Any trigger set to null is disabled. Rate triggers only fire once the
+// window holds at least minimumCalls outcomes.
+export type CircuitBreakerConfig = {
+  consecutiveFailures: number | null;
+  errorRateThreshold: number | null;
+  slowCallThresholdMs: number | null;
+  slowCallRateThreshold: number | null;
+  windowSize: number;
+  minimumCalls: number;
+  openDurationMs: number;
+  halfOpenMaxCalls: number;
+};
+
+export type BreakerOutcome = "ok" | "slow" | "failed";
+
+export type BreakerState = {
+  status: BreakerStatus;
+  consecutiveFailures: number;
+  window: BreakerOutcome[];
+  changedAtMs: number;
+  trialsStarted: number;
+  trialsPassed: number;
 };
 
 export type LoadBalancerState = {
   id: string;
   name: string;
+  zone?: string;
   isUp: boolean;
   maxConnectionsPerSecond: number;
   maxConcurrentConnections: number;
@@ -67,21 +517,73 @@ export type LoadBalancerState = {
   droppedRequests: number;
   queue: Request[];
   activeConnections: number;
+  nextDispatchMs: number;
+  weight: number;
+  rrIndex: number;
+  // Smooth weighted round robin: current weight per server.
+  smoothWeights: Record<string, number>;
   routingAlgorithm: AlgorithmId;
   healthIntervalMs: number;
   lastHealthCheckMs: number;
   healthSnapshot: Record<string, boolean>;
+  probes: Record<string, ProbeState>;
+  breakers: Record<string, BreakerState>;
+  lastHeartbeatMs: number;
+  failureDetected: boolean;
 };
 
 export type LogEntry = {
   id: number;
   timeMs: number;
-  status: RequestStatus;
+  status: LogStatus;
   message: string;
   serverId?: string;
   lbId?: string;
 };
 
+export type FaultAction =
+  | {
+      kind: "server-health";
+      serverId: string;
+      health: ServerHealth;
+      slowMultiplier?: number;
+    }
+  | { kind: "server-error-rate"; serverId: string; errorRate: number }
+  | { kind: "lb-status"; lbId: string; isUp: boolean }
+  | { kind: "zone-status"; zone: string; isUp: boolean }
+  | { kind: "link"; linkId: string; link: Partial<LinkConfig> | null };
+
+// A fault a scenario applies at a fixed time. The label names it on the
+// timeline; without one the fault describes itself.
+export type ChaosEvent = {
+  atMs: number;
+  action: FaultAction;
+  label?: string;
+};
+
+export type SimEvent = { timeMs: number; seq: number } & (
+  | { kind: "arrival" }
+  | { kind: "dispatch"; lbId: string }
+  | { kind: "completion"; serverId: string; requestId: number }
+  | { kind: "health-check"; lbId: string }
+  | { kind: "fault"; action: FaultAction }
+  | { kind: "heartbeat" }
+  | { kind: "probe-timeout"; lbId: string; serverId: string; probeId: number }
+  | { kind: "election" }
+  | {
+      kind: "retry";
+      originalId: number;
+      attempt: number;
+      client?: ClientIdentity;
+      attributes?: RequestAttributes;
+    }
+  | { kind: "user-send"; userId: string }
+  | { kind: "timeout" }
+  | { kind: "hedge" }
+  | { kind: "autoscale" }
+  | { kind: "fleet-change" }
+);
+
 export type MetricsPoint = {
   timeMs: number;
   avgLatencyMs: number;
@@ -92,24 +594,52 @@ export type MetricsPoint = {
   failureRate: number;
   dropsLb: number;
   dropsServer: number;
+  retries: number;
   avgLbWaitMs: number;
   avgServerWaitMs: number;
 };
 
 export type SimulationState = {
+  engine: EngineId;
   timeMs: number;
   tickMs: number;
+  eventQueue: SimEvent[];
+  nextEventSeq: number;
   nextRequestId: number;
   pendingRemainder: number;
+  seed: number;
+  rngState: number;
+  arrivalProcess: ArrivalProcess;
+  serviceTime: ServiceTimeDistribution;
   recentLatencies: number[];
+  recentDecisions: RoutingDecision[];
   recentLbWaits: number[];
   recentServerWaits: number[];
   algorithmId: AlgorithmId;
   workloadId: WorkloadId;
-  rrIndex: number;
+  workloadShape: WorkloadShape;
+  // When set, arrivals come from the recording instead of workloadShape.
+  trace: TraceReplay | null;
+  // Empty when every request costs the same.
+  requestClasses: RequestClass[];
+  classStats: Record<string, ClassStats>;
+  // When set, users drive arrivals instead of workloadShape.
+  closedLoop: ClosedLoopConfig | null;
+  users: VirtualUser[];
   ewmaAlpha: number;
+  jsqChoices: number;
+  dynamicWeights: DynamicWeightConfig;
+  slowStart: SlowStartConfig;
+  coldCache: ColdCacheConfig;
+  autoscaling: AutoscalerConfig;
+  autoscaler: AutoscalerState;
   loadBalancers: LoadBalancerState[];
   leaderLbId: string | null;
+  lbMode: LbMode;
+  frontDoorPolicy: FrontDoorId;
+  frontDoorIndex: number;
+  failover: FailoverConfig;
+  electionStartedMs: number | null;
   servers: ServerState[];
   log: LogEntry[];
   metrics: MetricsPoint[];
@@ -119,7 +649,31 @@ export type SimulationState = {
     started: number;
     droppedLb: number;
     droppedServer: number;
+    retries: number;
+    retriesDenied: number;
+    timedOut: number;
+    wastedRequests: number;
+    wastedWorkMs: number;
+    hedges: number;
+    hedgeWins: number;
+    hedgeExtraWorkMs: number;
+    affinityFallbacks: number;
+    crossZone: number;
   };
   healthCheckIntervalMs: number;
+  healthCheck: HealthCheckConfig;
+  nextProbeId: number;
+  circuitBreaker: CircuitBreakerConfig;
+  retry: RetryConfig;
+  retryBudget: RetryBudgetState;
+  timeouts: TimeoutConfig;
+  hedging: HedgeConfig;
+  clients: ClientPopulation;
+  affinity: AffinityConfig;
+  sessions: Record<string, StickySession>;
   recoveryDelayMs: number;
+  drainTimeoutMs: number;
+  zones: ZoneConfig;
+  network: NetworkConfig;
+  chaos: ChaosEvent[];
 };
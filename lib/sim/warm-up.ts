@@ -0,0 +1,56 @@
+import type { LoadBalancerState, ServerState, SimulationState } from "./types";
+
+// Share of normal traffic the LB allows a server that recently became
+// healthy again, from slowStart.minFactor up to 1 across the window.
+export const slowStartFactor = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  serverId: string
+) => {
+  const { windowMs, minFactor } = state.slowStart;
+  const since = lb.probes[serverId]?.healthySinceMs ?? null;
+  if (windowMs <= 0 || since === null) return 1;
+  const progress = (state.timeMs - since) / windowMs;
+  if (progress >= 1) return 1;
+  return Math.max(minFactor, progress);
+};
+
+// Weight mode: algorithms see warming servers with a reduced weight. Only
+// weight-aware algorithms notice.
+export const applySlowStartWeights = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  servers: ServerState[]
+) => {
+  if (state.slowStart.mode !== "weight") return servers;
+  return servers.map((server) => {
+    const factor = slowStartFactor(state, lb, server.id);
+    return factor < 1 ? { ...server, weight: server.weight * factor } : server;
+  });
+};
+
+// Connections mode: a warming server only takes its share of its slots.
+export const slowStartAllows = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  server: ServerState
+) => {
+  if (state.slowStart.mode !== "connections") return true;
+  const factor = slowStartFactor(state, lb, server.id);
+  if (factor >= 1) return true;
+  const cap = Math.max(1, Math.ceil(server.maxConcurrentRequests * factor));
+  return server.inflight.length < cap;
+};
+
+// Latency multiplier for a server whose cache is still warming up.
+export const coldCacheFactor = (state: SimulationState, server: ServerState) => {
+  const { penaltyFactor, decayMs } = state.coldCache;
+  if (penaltyFactor <= 1 || server.coldSinceMs === null) return 1;
+  const elapsedMs = Math.max(0, state.timeMs - server.coldSinceMs);
+  return 1 + (penaltyFactor - 1) * Math.exp(-elapsedMs / decayMs);
+};
+
+// Called whenever a server goes from DOWN to serving again.
+export const markCold = (state: SimulationState, server: ServerState) => {
+  server.coldSinceMs = state.timeMs;
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { WorkloadShape } from "./types";
+import { shapeRate } from "./workloads";
+
+const rates = (shape: WorkloadShape, times: number[]) =>
+  times.map((timeMs) => shapeRate(shape, timeMs));
+
+describe("shapeRate", () => {
+  it("holds a constant rate", () => {
+    expect(rates({ kind: "constant", rps: 20 }, [0, 5000, 1e6])).toEqual([
+      20, 20, 20,
+    ]);
+  });
+
+  it("ramps linearly and then holds", () => {
+    const shape: WorkloadShape = {
+      kind: "ramp",
+      fromRps: 10,
+      toRps: 50,
+      durationMs: 4000,
+    };
+    expect(rates(shape, [0, 1000, 4000, 9000])).toEqual([10, 20, 50, 50]);
+  });
+
+  it("switches to each step at its time", () => {
+    const shape: WorkloadShape = {
+      kind: "step",
+      steps: [
+        { atMs: 1000, rps: 10 },
+        { atMs: 3000, rps: 40 },
+      ],
+    };
+    expect(rates(shape, [0, 1000, 2999, 3000])).toEqual([0, 10, 10, 40]);
+  });
+
+  it("starts a sine at its trough unless a peak is given", () => {
+    const shape: WorkloadShape = {
+      kind: "sine",
+      baseRps: 30,
+      amplitudeRps: 20,
+      periodMs: 8000,
+    };
+    expect(shapeRate(shape, 0)).toBeCloseTo(10);
+    expect(shapeRate(shape, 4000)).toBeCloseTo(50);
+    expect(shapeRate({ ...shape, peakAtMs: 0 }, 0)).toBeCloseTo(50);
+  });
+
+  it("repeats a spike every period", () => {
+    const shape: WorkloadShape = {
+      kind: "spike",
+      rps: 45,
+      atMs: 1000,
+      durationMs: 500,
+      everyMs: 2000,
+    };
+    expect(rates(shape, [500, 1000, 1499, 1500, 3200, 3600])).toEqual([
+      0, 45, 45, 0, 45, 0,
+    ]);
+  });
+
+  it("rises to a flash crowd's peak and decays after it", () => {
+    const shape: WorkloadShape = {
+      kind: "flash-crowd",
+      peakRps: 100,
+      atMs: 1000,
+      riseMs: 1000,
+      decayMs: 2000,
+    };
+    expect(rates(shape, [0, 1500, 2000])).toEqual([0, 50, 100]);
+    expect(shapeRate(shape, 4000)).toBeCloseTo(100 / Math.E);
+  });
+
+  it("adds the parts of a sum", () => {
+    const shape: WorkloadShape = {
+      kind: "sum",
+      parts: [
+        { kind: "constant", rps: 8 },
+        { kind: "spike", rps: 40, atMs: 0, durationMs: 1000 },
+      ],
+    };
+    expect(rates(shape, [0, 1000])).toEqual([48, 8]);
+  });
+
+  it("plays a sequence in order and loops it when asked", () => {
+    const parts = [
+      { durationMs: 1000, shape: { kind: "constant", rps: 5 } as const },
+      {
+        durationMs: 2000,
+        shape: { kind: "ramp", fromRps: 0, toRps: 20, durationMs: 2000 } as const,
+      },
+    ];
+    const once: WorkloadShape = { kind: "sequence", parts };
+    // Each part sees time from its own start; past the end the last part holds.
+    expect(rates(once, [500, 2000, 5000])).toEqual([5, 10, 20]);
+    const looped: WorkloadShape = { kind: "sequence", parts, loop: true };
+    expect(rates(looped, [3500, 5000])).toEqual([5, 10]);
+  });
+
+  it("never asks for a negative rate", () => {
+    const shape: WorkloadShape = {
+      kind: "sine",
+      baseRps: 5,
+      amplitudeRps: 20,
+      periodMs: 1000,
+    };
+    expect(shapeRate(shape, 0)).toBe(0);
+  });
+});
@@ -1,10 +1,106 @@
-import type { WorkloadId } from "./types";
+import { nextRandom } from "./random";
+import type {
+  ClientPopulation,
+  RequestAttributes,
+  RequestClass,
+  SimulationState,
+  WorkloadId,
+  WorkloadShape,
+} from "./types";
 
 export type Workload = {
   id: WorkloadId;
   name: string;
   description: string;
-  rateRps: (timeMs: number) => number;
+  shape: WorkloadShape;
+  clients: ClientPopulation;
+  classes: RequestClass[];
+};
+
+const evaluateShape = (shape: WorkloadShape, timeMs: number): number => {
+  switch (shape.kind) {
+    case "constant":
+      return shape.rps;
+    case "ramp": {
+      const progress =
+        shape.durationMs > 0 ? Math.min(1, timeMs / shape.durationMs) : 1;
+      return shape.fromRps + (shape.toRps - shape.fromRps) * progress;
+    }
+    case "step": {
+      const due = shape.steps.filter((step) => step.atMs <= timeMs);
+      return due.length ? due[due.length - 1].rps : 0;
+    }
+    case "sine": {
+      // Without peakAtMs the curve starts at its trough, like a day at midnight.
+      const peakAtMs = shape.peakAtMs ?? shape.periodMs / 2;
+      return (
+        shape.baseRps +
+        shape.amplitudeRps *
+          Math.cos((2 * Math.PI * (timeMs - peakAtMs)) / shape.periodMs)
+      );
+    }
+    case "spike": {
+      if (timeMs < shape.atMs) return 0;
+      const sinceMs = shape.everyMs
+        ? (timeMs - shape.atMs) % shape.everyMs
+        : timeMs - shape.atMs;
+      return sinceMs < shape.durationMs ? shape.rps : 0;
+    }
+    case "flash-crowd": {
+      // Linear rise to the peak, then an exponential fall-off.
+      const sinceMs = timeMs - shape.atMs;
+      if (sinceMs < 0) return 0;
+      if (sinceMs < shape.riseMs) return (shape.peakRps * sinceMs) / shape.riseMs;
+      return shape.peakRps * Math.exp(-(sinceMs - shape.riseMs) / shape.decayMs);
+    }
+    case "sum":
+      return shape.parts.reduce(
+        (sum, part) => sum + evaluateShape(part, timeMs),
+        0
+      );
+    case "sequence": {
+      const totalMs = shape.parts.reduce((sum, part) => sum + part.durationMs, 0);
+      if (!shape.parts.length) return 0;
+      let localMs = shape.loop && totalMs > 0 ? timeMs % totalMs : timeMs;
+      for (const part of shape.parts) {
+        if (localMs < part.durationMs) return evaluateShape(part.shape, localMs);
+        localMs -= part.durationMs;
+      }
+      const last = shape.parts[shape.parts.length - 1];
+      return evaluateShape(last.shape, localMs + last.durationMs);
+    }
+    default:
+      return 0;
+  }
+};
+
+// Requests per second a shape asks for at timeMs, never below zero.
+export const shapeRate = (shape: WorkloadShape, timeMs: number) =>
+  Math.max(0, evaluateShape(shape, timeMs));
+
+// Draws a class from the mix for a new request. Without classes nothing is
+// drawn, so runs without a mix keep their random sequence.
+export const pickRequestClass = (
+  state: SimulationState
+): RequestAttributes | undefined => {
+  const classes = state.requestClasses;
+  const total = classes.reduce((sum, item) => sum + Math.max(0, item.share), 0);
+  if (!classes.length || total <= 0) return undefined;
+  let cursor = nextRandom(state) * total;
+  let chosen = classes[classes.length - 1];
+  for (const item of classes) {
+    cursor -= Math.max(0, item.share);
+    if (cursor < 0) {
+      chosen = item;
+      break;
+    }
+  }
+  return {
+    classId: chosen.id,
+    serviceMultiplier: chosen.serviceMultiplier,
+    requestBytes: chosen.requestBytes,
+    sizeBytes: chosen.responseBytes,
+  };
 };
 
 export const workloads: Workload[] = [
@@ -12,20 +108,106 @@ export const workloads: Workload[] = [
     id: "steady",
     name: "Steady",
     description: "Constant baseline traffic.",
-    rateRps: () => 20,
+    shape: { kind: "constant", rps: 20 },
+    clients: { count: 60, sourceIps: 60, zipfExponent: 0 },
+    classes: [],
   },
   {
     id: "burst",
     name: "Burst",
     description: "Periodic traffic spikes on top of a baseline.",
-    rateRps: (timeMs) => {
-      const base = 8;
-      const burst = 45;
-      const cycleMs = 8000;
-      const burstMs = 2000;
-      const withinBurst = timeMs % cycleMs < burstMs;
-      return withinBurst ? base + burst : base;
+    shape: {
+      kind: "sum",
+      parts: [
+        { kind: "constant", rps: 8 },
+        { kind: "spike", rps: 45, atMs: 0, durationMs: 2000, everyMs: 8000 },
+      ],
     },
+    clients: { count: 120, sourceIps: 120, zipfExponent: 0 },
+    classes: [],
+  },
+  {
+    id: "surge",
+    name: "Surge",
+    description: "Long traffic surges that outlast a server's boot time.",
+    shape: {
+      kind: "sequence",
+      loop: true,
+      parts: [
+        { durationMs: 15000, shape: { kind: "constant", rps: 15 } },
+        { durationMs: 60000, shape: { kind: "constant", rps: 60 } },
+        { durationMs: 45000, shape: { kind: "constant", rps: 15 } },
+      ],
+    },
+    clients: { count: 120, sourceIps: 120, zipfExponent: 0 },
+    classes: [],
+  },
+  {
+    id: "ramp",
+    name: "Ramp",
+    description: "Traffic climbs from 5 to 60 rps over a minute, then holds.",
+    shape: { kind: "ramp", fromRps: 5, toRps: 60, durationMs: 60000 },
+    clients: { count: 120, sourceIps: 120, zipfExponent: 0 },
+    classes: [],
+  },
+  {
+    id: "diurnal",
+    name: "Diurnal",
+    description: "A day's rise and fall squeezed into two minutes.",
+    shape: { kind: "sine", baseRps: 30, amplitudeRps: 25, periodMs: 120000 },
+    clients: { count: 120, sourceIps: 120, zipfExponent: 0 },
+    classes: [],
+  },
+  {
+    id: "flash-crowd",
+    name: "Flash crowd",
+    description: "A quiet baseline hit by a sudden crowd that slowly disperses.",
+    shape: {
+      kind: "sum",
+      parts: [
+        { kind: "constant", rps: 10 },
+        {
+          kind: "flash-crowd",
+          peakRps: 70,
+          atMs: 20000,
+          riseMs: 2000,
+          decayMs: 15000,
+        },
+      ],
+    },
+    clients: { count: 200, sourceIps: 200, zipfExponent: 0 },
+    classes: [],
+  },
+  {
+    id: "mixed",
+    name: "Mixed API",
+    description: "Mostly cheap reads, some heavy searches and the odd upload.",
+    shape: { kind: "constant", rps: 30 },
+    clients: { count: 120, sourceIps: 120, zipfExponent: 0 },
+    classes: [
+      {
+        id: "get",
+        name: "GET",
+        share: 0.8,
+        serviceMultiplier: 0.5,
+        responseBytes: 4000,
+      },
+      {
+        id: "search",
+        name: "Search",
+        share: 0.15,
+        serviceMultiplier: 4,
+        responseBytes: 40000,
+      },
+      {
+        id: "upload",
+        name: "Upload",
+        share: 0.05,
+        serviceMultiplier: 8,
+        requestBytes: 500000,
+        responseBytes: 1000,
+      },
+    ],
   },
 ];
 
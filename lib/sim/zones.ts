@@ -0,0 +1,108 @@
+import { hashString } from "./hash";
+import { nextRandom } from "./random";
+import type {
+  LoadBalancerState,
+  Request,
+  ServerState,
+  SimulationState,
+} from "./types";
+
+// Envoy's overprovisioning factor: a zone keeps its full weight until fewer
+// than 1/1.4 of its servers are healthy.
+const OVERPROVISIONING = 1.4;
+
+// Clients keep their zone for the whole run: the client id picks a point in
+// the configured shares.
+export const clientZone = (state: SimulationState, clientId: string) => {
+  const shares = Object.entries(state.zones.clientShares);
+  const total = shares.reduce((sum, [, share]) => sum + Math.max(0, share), 0);
+  if (total <= 0) return undefined;
+  let cursor = ((hashString(clientId) % 10000) / 10000) * total;
+  for (const [zone, share] of shares) {
+    cursor -= Math.max(0, share);
+    if (cursor < 0) return zone;
+  }
+  return shares[shares.length - 1][0];
+};
+
+// Round trip added for crossing from one zone to another. Anything without
+// a zone is treated as local.
+export const zoneHopMs = (state: SimulationState, from?: string, to?: string) =>
+  from && to && from !== to ? state.zones.interZoneRttMs : 0;
+
+export const networkDelayMs = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  server: ServerState,
+  req: Request
+) =>
+  zoneHopMs(state, req.client?.zone, lb.zone) +
+  zoneHopMs(state, lb.zone, server.zone);
+
+const isHealthyFor = (lb: LoadBalancerState, server: ServerState) =>
+  lb.healthSnapshot[server.id] &&
+  server.health !== "DOWN" &&
+  server.health !== "DRAINING";
+
+// Locality weighting: pick a zone in proportion to its weight times its
+// healthy share, then let the algorithm choose inside it.
+const pickWeightedZone = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  availableIds: string[]
+) => {
+  const zones = Array.from(
+    new Set(
+      state.servers
+        .filter((server) => availableIds.includes(server.id))
+        .map((server) => server.zone ?? "")
+    )
+  );
+  const weighted = zones.map((zone) => {
+    const members = state.servers.filter(
+      (server) => (server.zone ?? "") === zone
+    );
+    const healthy = members.filter((server) => isHealthyFor(lb, server));
+    const availability = Math.min(
+      1,
+      (OVERPROVISIONING * healthy.length) / Math.max(1, members.length)
+    );
+    return { zone, weight: (state.zones.weights[zone] ?? 1) * availability };
+  });
+  const total = weighted.reduce((sum, item) => sum + item.weight, 0);
+  if (total <= 0) return null;
+  let cursor = nextRandom(state) * total;
+  for (const item of weighted) {
+    cursor -= item.weight;
+    if (cursor < 0) return item.zone;
+  }
+  return weighted[weighted.length - 1].zone;
+};
+
+// Narrows the servers an LB may use according to the zone routing mode.
+export const zoneCandidates = (
+  state: SimulationState,
+  lb: LoadBalancerState,
+  availableIds: string[]
+) => {
+  const { routing } = state.zones;
+  if (routing === "off") return availableIds;
+  const zoneOf = (id: string) =>
+    state.servers.find((server) => server.id === id)?.zone ?? "";
+
+  if (routing === "locality-weighted") {
+    const zone = pickWeightedZone(state, lb, availableIds);
+    if (zone === null) return availableIds;
+    return availableIds.filter((id) => zoneOf(id) === zone);
+  }
+
+  if (!lb.zone) return availableIds;
+  const local = availableIds.filter((id) => zoneOf(id) === lb.zone);
+  if (routing === "spillover") {
+    return local.length ? local : availableIds;
+  }
+  const localHealthy = state.servers.some(
+    (server) => server.zone === lb.zone && isHealthyFor(lb, server)
+  );
+  return localHealthy ? local : availableIds;
+};